@@ -0,0 +1,136 @@
+import { useRef, useState, type MouseEvent, type PointerEvent } from "react";
+import { Components, useInputContext, type LevaInputProps } from "leva/plugin";
+
+// [x, y], both in 0..1 with y pointing up.
+export type CurvePoint = [number, number];
+
+export type CurveSettings = {
+  maxPoints: number;
+};
+
+const WIDTH = 160;
+const HEIGHT = 72;
+const HANDLE_RADIUS = 4;
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Drag handles to reshape the curve, double-click empty space to add a point
+// and double-click an inner handle to remove it. The end points stay pinned
+// to x = 0 and x = 1.
+export function CurveInput() {
+  const { label, value, onUpdate, settings } =
+    useInputContext<LevaInputProps<CurvePoint[], CurveSettings>>();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toCurvePoint = (event: MouseEvent): CurvePoint => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) {
+      return [0, 0];
+    }
+
+    return [
+      clampUnit((event.clientX - rect.left) / rect.width),
+      clampUnit(1 - (event.clientY - rect.top) / rect.height),
+    ];
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) {
+      return;
+    }
+
+    const [x, y] = toCurvePoint(event);
+    const next = value.map(([px, py]): CurvePoint => [px, py]);
+    const isEnd = dragIndex === 0 || dragIndex === value.length - 1;
+    next[dragIndex] = [
+      isEnd
+        ? value[dragIndex][0]
+        : Math.min(
+            Math.max(x, value[dragIndex - 1][0]),
+            value[dragIndex + 1][0],
+          ),
+      y,
+    ];
+    onUpdate(next);
+  };
+
+  const endDrag = (event: PointerEvent<SVGSVGElement>) => {
+    if (svgRef.current?.hasPointerCapture(event.pointerId)) {
+      svgRef.current.releasePointerCapture(event.pointerId);
+    }
+    setDragIndex(null);
+  };
+
+  const addPoint = (event: MouseEvent<SVGSVGElement>) => {
+    if (value.length >= settings.maxPoints) {
+      return;
+    }
+
+    const point = toCurvePoint(event);
+    onUpdate([...value, point].sort((a, b) => a[0] - b[0]));
+  };
+
+  const polyline = value
+    .map(([x, y]) => `${x * WIDTH},${(1 - y) * HEIGHT}`)
+    .join(" ");
+
+  return (
+    <Components.Row input>
+      <Components.Label>{label}</Components.Label>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        height={HEIGHT}
+        preserveAspectRatio="none"
+        style={{ touchAction: "none", cursor: "crosshair", overflow: "visible" }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onDoubleClick={addPoint}
+      >
+        <rect
+          width={WIDTH}
+          height={HEIGHT}
+          fill="var(--leva-colors-elevation3)"
+        />
+        <polyline
+          points={polyline}
+          fill="none"
+          stroke="var(--leva-colors-highlight2)"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        {value.map(([x, y], index) => (
+          <circle
+            key={index}
+            cx={x * WIDTH}
+            cy={(1 - y) * HEIGHT}
+            r={HANDLE_RADIUS}
+            fill={
+              index === dragIndex
+                ? "var(--leva-colors-accent2)"
+                : "var(--leva-colors-highlight3)"
+            }
+            style={{ cursor: "grab" }}
+            onPointerDown={(event) => {
+              event.stopPropagation();
+              svgRef.current?.setPointerCapture(event.pointerId);
+              setDragIndex(index);
+            }}
+            onDoubleClick={(event) => {
+              event.stopPropagation();
+              if (index === 0 || index === value.length - 1) {
+                return;
+              }
+              onUpdate(value.filter((_, pointIndex) => pointIndex !== index));
+            }}
+          />
+        ))}
+      </svg>
+    </Components.Row>
+  );
+}
@@ -0,0 +1,16 @@
+import { createPlugin } from "leva/plugin";
+
+import { CurveInput, type CurvePoint, type CurveSettings } from "./CurveInput";
+
+type CurvePluginInput = {
+  value: CurvePoint[];
+  maxPoints?: number;
+};
+
+export const curve = createPlugin<CurvePluginInput, CurvePoint[], CurveSettings>({
+  component: CurveInput,
+  normalize: ({ value, maxPoints = 8 }) => ({
+    value: value.map(([x, y]): CurvePoint => [x, y]),
+    settings: { maxPoints },
+  }),
+});
@@ -109,7 +109,8 @@ async function writeBlobToDirectory(
 }
 
 export function useScreenshotExport() {
-  const { gl, size, invalidate, frameloop, setFrameloop, advance } = useThree()
+  const { gl, size, invalidate, frameloop, setFrameloop, advance, clock } =
+    useThree()
   const isCapturingRef = useRef(false)
 
   const runCaptureLifecycle = useCallback(
@@ -218,7 +219,7 @@ export function useScreenshotExport() {
       )
       const prefixBase = options?.filenamePrefix?.trim() || 'type-collapse-seq'
       const prefix = `${prefixBase}-${timestamp()}`
-      const frameDurationMs = 1000 / fps
+      const frameDurationSeconds = 1 / fps
 
       const typedWindow = window as WindowWithDirectoryPicker
       let directoryHandle: DirectoryHandle | null = null
@@ -257,22 +258,36 @@ export function useScreenshotExport() {
             onAfterCapture: options?.onAfterCapture,
           },
           async () => {
-            const captureStart = performance.now()
-
-            for (let frame = 1; frame <= frameCount; frame += 1) {
-              const timestamp = captureStart + (frame - 1) * frameDurationMs
-
-              // Deterministic step: one fixed simulation tick per exported frame.
-              advance(timestamp, true)
-
-              const blob = await canvasToBlob(gl.domElement)
-              const filename = createSequenceFrameName(prefix, frame, framePadding)
-
-              if (directoryHandle) {
-                await writeBlobToDirectory(directoryHandle, filename, blob)
-              } else {
-                downloadBlob(blob, filename)
+            // With the clock stopped, frameloop 'never' derives delta purely
+            // from the timestamps below, so every run sees the same deltas.
+            const clockAutoStart = clock.autoStart
+            const clockElapsedTime = clock.elapsedTime
+            clock.autoStart = false
+            clock.stop()
+            clock.elapsedTime = 0
+
+            try {
+              for (let frame = 1; frame <= frameCount; frame += 1) {
+                // Deterministic step: one fixed simulation tick per exported frame.
+                advance(frame * frameDurationSeconds, true)
+
+                const blob = await canvasToBlob(gl.domElement)
+                const filename = createSequenceFrameName(
+                  prefix,
+                  frame,
+                  framePadding,
+                )
+
+                if (directoryHandle) {
+                  await writeBlobToDirectory(directoryHandle, filename, blob)
+                } else {
+                  downloadBlob(blob, filename)
+                }
               }
+            } finally {
+              clock.autoStart = clockAutoStart
+              clock.start()
+              clock.elapsedTime = clockElapsedTime
             }
           },
         )
@@ -282,6 +297,7 @@ export function useScreenshotExport() {
     },
     [
       advance,
+      clock,
       frameloop,
       gl.domElement,
       setFrameloop,
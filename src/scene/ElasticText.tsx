@@ -1,10 +1,62 @@
-import { Text3D } from '@react-three/drei'
-import { useFrame, type ThreeEvent } from '@react-three/fiber'
-import { createNoise3D } from 'simplex-noise'
+import { useFont } from '@react-three/drei'
+import { useFrame, useThree, type ThreeEvent } from '@react-three/fiber'
 import gsap from 'gsap'
-import { useCallback, useEffect, useRef, type MutableRefObject } from 'react'
-import type { BufferGeometry, Mesh, MeshStandardMaterial } from 'three'
-import { BufferAttribute, Color, Euler, Vector3 } from 'three'
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  type MutableRefObject,
+} from 'react'
+import type { BufferGeometry, Mesh, MeshStandardMaterial, Texture } from 'three'
+import { BufferAttribute, Color, Vector3 } from 'three'
+
+import type {
+  CharacterModeId,
+  CharacterModeParams,
+} from './simulation/characterModes'
+import {
+  PointerPathRecorder,
+  samplePointerPath,
+  type PointerPath,
+} from './automation/pointerPath'
+import {
+  PointerPerformancePlayer,
+  PointerPerformanceRecorder,
+  type PointerPerformance,
+} from './automation/pointerPerformance'
+import { stepCpuSimulation } from './simulation/cpuSolver'
+import type { FalloffCurvePoint, FalloffProfile } from './simulation/falloff'
+import {
+  combineSimulationStats,
+  SimulationDebugOverlay,
+  type SimulationStats,
+} from './debug/SimulationDebugOverlay'
+import { GpuVertexSolver } from './simulation/GpuVertexSolver'
+import { NormalSolver } from './simulation/NormalSolver'
+import {
+  createSeededNoise3D,
+  createSeededRandom,
+} from './simulation/random'
+import { createSeamLayout } from './simulation/seams'
+import { ShatterSolver } from './simulation/ShatterSolver'
+import { SoftBodySolver } from './simulation/SoftBodySolver'
+import type {
+  EmitterFrame,
+  ImpulseFrame,
+  SimulationFrame,
+} from './simulation/types'
+import {
+  isWorkerSimulationSupported,
+  WorkerVertexSolver,
+} from './simulation/WorkerVertexSolver'
+import {
+  createGlyphGeometries,
+  createTextGeometry,
+} from './text/glyphGeometry'
 
 export type DistortionSettings = {
   noiseAmplitude: number
@@ -12,10 +64,15 @@ export type DistortionSettings = {
   noiseSpeed: number
   followRate: number
   radius: number
+  falloff: FalloffProfile
+  // Fraction of each emitter's radius held at full strength.
+  innerRadius: number
+  falloffCurve: FalloffCurvePoint[]
   explodeAmplitude: number
   rotationAmplitude: number
-  spring: number
-  friction: number
+  // Spring stiffness in 1/s² and velocity damping in 1/s.
+  stiffness: number
+  damping: number
   idleMix: number
   emissiveVelocityBoost: number
   color: string
@@ -26,16 +83,170 @@ export type DistortionSettings = {
   wireframe: boolean
   characterMode: DistortionCharacterMode
   characterStrength: number
+  characterParams: CharacterModeParams
+}
+
+export type DistortionCharacterMode = CharacterModeId
+
+export type DistortionAutomationMode =
+  | 'Off'
+  | 'Sweep'
+  | 'BPM Buzz'
+  | 'Lissajous'
+  | 'Random Walk'
+  | 'Orbit'
+  | 'Recorded'
+
+export type SimulationSolver = 'CPU' | 'Worker' | 'GPU'
+
+export type TextLayoutMode = 'Word' | 'Glyphs'
+
+export type TextAlign = 'Left' | 'Center' | 'Right' | 'Justify'
+
+export type TextParagraphSettings = {
+  align: TextAlign
+  // Extra advance after every glyph, as a fraction of the font size.
+  tracking: number
+  // Baseline-to-baseline distance as a multiple of the font's line height.
+  leading: number
+  // Words wrap onto a new line past this width in world units; 0 disables.
+  wrapWidth: number
+}
+
+export type TextPathShape = 'None' | 'Arc' | 'Circle' | 'Sine' | 'SVG'
+
+export type TextPathSettings = {
+  shape: TextPathShape
+  // Arc and Circle radius in world units.
+  radius: number
+  // Sine wave height and length in world units.
+  amplitude: number
+  wavelength: number
+  // SVG path data (a `d` attribute) and the world units per SVG unit.
+  svgPath: string
+  svgScale: number
+  // Slides the text along the path, as a fraction of its length.
+  offset: number
+}
+
+// Extra vertices across the flat front and back faces, so distortion bends
+// them instead of stretching a few long triangles.
+export type CapTessellationSettings = {
+  enabled: boolean
+  // Longest inner cap edge to aim for, in world units.
+  edgeLength: number
+  // Most vertices the whole text may have after subdivision.
+  vertexBudget: number
+}
+
+export type NormalMode = 'Static' | 'Smooth' | 'Faceted'
+
+export type NormalSettings = {
+  mode: NormalMode
+  // Vertices slower than this (units/s) keep their last normal in Smooth mode.
+  velocityThreshold: number
+}
+
+export type GlyphVariationSettings = {
+  seedSpread: number
+  stiffnessSpread: number
+  dampingSpread: number
+  stagger: number
+}
+
+export type ShatterGranularity = 'Shards' | 'Glyphs'
+
+export type ShatterSettings = {
+  enabled: boolean
+  // Voronoi shards of roughly `shardSize`, or one rigid piece per glyph.
+  granularity: ShatterGranularity
+  shardSize: number
+  burstStrength: number
+  spin: number
+  gravity: number
+  drag: number
+  reassemble: boolean
+  reassembleDelay: number
+  reassembleSpring: number
+  // Broken pieces land on the ground plane instead of falling through it.
+  groundCollision: boolean
+  // Share of the impact speed a piece bounces back with.
+  restitution: number
+  // Coulomb friction coefficient against the ground.
+  friction: number
+  // Releases every piece under gravity; clearing it rebuilds the text.
+  dropped: boolean
 }
 
-export type DistortionCharacterMode =
-  | 'Organic'
-  | 'Shear'
-  | 'Rip'
-  | 'Crunch'
-  | 'Melt'
+// `Welded` keeps the extruded surface watertight; `Tear` lets chosen seams
+// split open.
+export type SeamMode = 'Welded' | 'Tear'
+
+export type SeamSettings = {
+  mode: SeamMode
+  // Faces meeting at more than this many degrees may tear apart.
+  tearAngle: number
+  // Share of those seams that tear, picked by smooth noise over the text.
+  tearCoverage: number
+  // 0 keeps torn seams shut, 1 splits them as far as the face normals go.
+  tearAmount: number
+  // Spans torn seams with walls so the split never shows the hollow inside.
+  innerWalls: boolean
+}
 
-export type DistortionAutomationMode = 'Off' | 'Sweep' | 'BPM Buzz'
+export type PlasticitySettings = {
+  enabled: boolean
+  // Displacement in world units the text springs back from; past it, the
+  // excess dents the rest pose.
+  yieldDistance: number
+  // 1/s; how quickly the excess flows into the rest pose.
+  flowRate: number
+  // 1/s; continuous recovery toward the original glyph shape, 0 keeps damage.
+  healRate: number
+}
+
+// Jelly, rubber or cloth: edges hold their rest length (and glyphs their
+// volume) while pointers, automation and impulses push the vertices.
+export type SoftBodySettings = {
+  enabled: boolean
+  // Share of each edge's stretch undone per substep; low is cloth, high is
+  // rubber.
+  stiffness: number
+  // Constraint passes per substep.
+  iterations: number
+  preserveVolume: boolean
+  // Share of each glyph's volume change undone per substep.
+  volumeStiffness: number
+}
+
+export type DebugOverlaySettings = {
+  enabled: boolean
+  radiusSpheres: boolean
+  automationPath: boolean
+  bounds: boolean
+  heatmap: boolean
+  // Speed in units per second at the hot end of the velocity heatmap.
+  heatmapMaxVelocity: number
+}
+
+export type TextTransitionStyle = 'Collapse' | 'Shatter' | 'Dissolve'
+
+export type TextTransitionSettings = {
+  enabled: boolean
+  style: TextTransitionStyle
+  // Character mode the words collapse through (and assemble from).
+  mode: DistortionCharacterMode
+  // Emitter press at full collapse, or the burst strength when shattering.
+  strength: number
+  // Seconds each glyph takes to collapse or assemble.
+  duration: number
+  // GSAP ease name, e.g. `power2.inOut`.
+  ease: string
+  // Seconds between consecutive glyphs in the `Glyphs` layout.
+  stagger: number
+  // How far the incoming word starts before the outgoing one finishes, 0..1.
+  overlap: number
+}
 
 export type DistortionAutomationSettings = {
   enabled: boolean
@@ -53,10 +264,66 @@ export type DistortionAutomationSettings = {
   buzzFraction: number
   buzzAttack: number
   buzzRelease: number
+  // Reach of the BPM Buzz targets and the Lissajous, Random Walk and Orbit
+  // paths, as a fraction of the text's half size.
   spreadX: number
   spreadY: number
   centerBias: number
   travelPortion: number
+  // Seconds per Lissajous cycle, and the cycles each axis runs within it.
+  lissajousSeconds: number
+  lissajousX: number
+  lissajousY: number
+  lissajousZ: number
+  // X phase offset in cycles; 0.25 turns a 1:1 figure into an ellipse.
+  lissajousPhase: number
+  // How fast the random walk wanders, in noise cycles per second.
+  wanderSpeed: number
+  orbitSeconds: number
+  // 0 circles in the text plane, 1 swings the orbit front to back.
+  orbitTilt: number
+  // Hover performance replayed by `Recorded`, looped.
+  recordedPath: PointerPath | null
+  recordedTimeScale: number
+  emitterCount: number
+}
+
+export type ImpulseOptions = {
+  // Text-local position; defaults to the centre of the text.
+  position?: [number, number, number]
+  radius?: number
+  strength?: number
+  mode?: DistortionCharacterMode
+  duration?: number
+  // Seeded random offset around `position`, half as much vertically.
+  scatter?: number
+}
+
+export type EmitterOptions = {
+  // Text-local position of an external influence (tracked visitor, sensor).
+  position: [number, number, number]
+  press?: number
+  radius?: number
+  mode?: DistortionCharacterMode
+}
+
+export type ElasticTextHandle = {
+  triggerImpulse: (options?: ImpulseOptions) => void
+  setEmitter: (id: string, options: EmitterOptions | null) => void
+  // Rebuilds every mesh from its rest pose and restarts simulation time, so a
+  // seed plus settings replays the same frames.
+  reset: () => void
+  // Eases plastic damage back to the original glyph shape over `duration`
+  // seconds.
+  heal: (duration?: number) => void
+  // Captures hover movement for the `Recorded` automation mode.
+  startPathRecording: () => void
+  stopPathRecording: () => PointerPath | null
+  // Captures every pointer and click-fired impulse for exact replay.
+  startPerformanceRecording: () => void
+  stopPerformanceRecording: () => PointerPerformance | null
+  // Live totals over every mesh while the debug overlay is enabled.
+  getDebugStats: () => SimulationStats
 }
 
 type ElasticTextProps = {
@@ -68,16 +335,144 @@ type ElasticTextProps = {
   bevelSize: number
   bevelThickness: number
   curveSegments: number
+  tessellation: CapTessellationSettings
+  paragraph: TextParagraphSettings
+  path: TextPathSettings
   paused: boolean
   seed: number
   meshKey: string
+  solver: SimulationSolver
+  stepRate: number
+  normals: NormalSettings
+  seams: SeamSettings
+  layoutMode: TextLayoutMode
+  glyphVariation: GlyphVariationSettings
+  shatter: ShatterSettings
+  // World-space height of the ground plane broken pieces collide with.
+  groundY: number
+  // Per-frame ground height (e.g. a modulated one) used over `groundY`.
+  groundYOverrideRef?: MutableRefObject<number | null>
+  plasticity: PlasticitySettings
+  softBody: SoftBodySettings
+  transition: TextTransitionSettings
   distortion: DistortionSettings
   automation: DistortionAutomationSettings
+  debug: DebugOverlaySettings
   distortionOverrideRef?: MutableRefObject<Partial<DistortionSettings> | null>
+  // Per-frame automation values (e.g. audio-driven intensity or tempo) laid
+  // over `automation` without a re-render.
+  automationOverrideRef?: MutableRefObject<
+    Partial<DistortionAutomationSettings> | null
+  >
+  // Take replayed alongside live pointers, restarting with `reset`.
+  performance: PointerPerformance | null
+  // Impulse a click fires (instead of pausing) while a performance records.
+  clickImpulse: ImpulseOptions
   onTogglePause: () => void
+  // Called whenever a mesh starts simulating, with the solver asked for and
+  // the one actually stepping it (the inline `CPU` loop when it fell back).
+  onSolverStarted?: (
+    requested: SimulationSolver,
+    active: SimulationSolver,
+  ) => void
+}
+
+type TextShape = Pick<
+  ElasticTextProps,
+  | 'text'
+  | 'font'
+  | 'size'
+  | 'depth'
+  | 'bevelEnabled'
+  | 'bevelSize'
+  | 'bevelThickness'
+  | 'curveSegments'
+  | 'tessellation'
+  | 'paragraph'
+  | 'path'
+>
+
+type SimulationProps = Pick<
+  ElasticTextProps,
+  | 'paused'
+  | 'seed'
+  | 'solver'
+  | 'stepRate'
+  | 'normals'
+  | 'seams'
+  | 'shatter'
+  | 'groundY'
+  | 'groundYOverrideRef'
+  | 'plasticity'
+  | 'softBody'
+  | 'transition'
+  | 'distortion'
+  | 'automation'
+  | 'debug'
+  | 'distortionOverrideRef'
+  | 'automationOverrideRef'
+  | 'clickImpulse'
+  | 'onTogglePause'
+  | 'onSolverStarted'
+> & {
+  impulsesRef: MutableRefObject<ActiveImpulse[]>
+  externalEmittersRef: MutableRefObject<Map<string, EmitterOptions>>
+  // Progress (0..1) of the running heal tween; 1 when idle.
+  healRef: MutableRefObject<{ progress: number }>
+  pathRecorder: PointerPathRecorder
+  performanceRecorder: PointerPerformanceRecorder
+  performancePlayer: PointerPerformancePlayer
+  debugOverlays: Set<SimulationDebugOverlay>
+  layer: LayerTransition
+  transitionClocksRef: MutableRefObject<Map<number, TransitionClock>>
 }
 
-type TextBounds = {
+type TransitionPhase = 'idle' | 'in' | 'out'
+
+// Seconds since a layer entered `phase`, keyed by layer id.
+type TransitionClock = {
+  phase: TransitionPhase
+  elapsed: number
+}
+
+type LayerTransition = {
+  id: number
+  phase: TransitionPhase
+  // Seconds into the phase before the first glyph starts moving.
+  delay: number
+}
+
+// Each text change adds a layer; the previous one collapses out underneath it
+// and is dropped once its transition has finished.
+type TextLayer = LayerTransition & {
+  meshKey: string
+  shape: TextShape
+}
+
+type ActiveImpulse = Omit<ImpulseFrame, 'progress'> & {
+  duration: number
+  // Furthest any mesh has simulated into the impulse; it expires once one
+  // has stepped through its whole duration.
+  age: number
+}
+
+type GlyphVariation = {
+  stiffnessScale: number
+  dampingOffset: number
+  timeOffset: number
+}
+
+type ElasticMeshProps = SimulationProps & {
+  meshKey: string
+  geometry: BufferGeometry
+  variation?: GlyphVariation
+  // Glyph this mesh draws in the `Glyphs` layout.
+  glyphIndex?: number
+  // Per-glyph offset into the layer's transition.
+  transitionDelay?: number
+}
+
+export type TextBounds = {
   minX: number
   maxX: number
   minY: number
@@ -92,11 +487,27 @@ type BpmAutomationState = {
   to: Vector3
 }
 
+type PointerEmitter = {
+  target: Vector3
+  current: Vector3
+  press: { value: number }
+}
+
+type AutomationEmitter = {
+  target: Vector3
+  current: Vector3
+  press: number
+  bpm: BpmAutomationState
+}
+
 type SimulationState = {
   geometry: BufferGeometry
   positionArray: Float32Array
   basePositionArray: Float32Array
+  restPositionArray: Float32Array
   baseNormalArray: Float32Array
+  // Rest normals the material shades with.
+  shadingNormalArray: Float32Array
   velocityArray: Float32Array
   velocityAttribute: BufferAttribute
 }
@@ -106,15 +517,34 @@ type EmissiveShader = {
     uEmissiveBaseColor: { value: Color }
     uEmissiveBoost: { value: number }
     uEmissiveIntensity: { value: number }
+    uDissolve: { value: number }
+    uHeatmap: { value: number }
+    uHeatmapMaxVelocity: { value: number }
+    uSimPosition: { value: Texture | null }
+    uSimVelocity: { value: Texture | null }
   }
   vertexShader: string
   fragmentShader: string
 }
 
+const MAX_ACTIVE_IMPULSES = 8
+const MAX_AUTOMATION_EMITTERS = 4
+// Longest frame the accumulator will catch up on, so a stall or a background
+// tab doesn't trigger a burst of substeps.
+const MAX_FRAME_DELTA = 0.1
+// Shared by every mesh so the dissolve pattern doesn't change with the seed.
+const dissolveNoise3d = createSeededNoise3D(7)
+const wanderNoise3d = createSeededNoise3D(11)
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value))
 }
 
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = clamp((value - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
 function easeInOutSine(value: number): number {
   return -(Math.cos(Math.PI * value) - 1) * 0.5
 }
@@ -124,44 +554,185 @@ function hashToUnit(value: number): number {
   return hashed - Math.floor(hashed)
 }
 
+function countGlyphs(text: string): number {
+  return Array.from(text.replace(/\s/g, '')).length
+}
+
+// Seconds from the start of an outgoing layer until its last glyph is gone.
+function getTransitionSpan(
+  transition: TextTransitionSettings,
+  text: string,
+  layoutMode: TextLayoutMode,
+): number {
+  const staggeredGlyphs =
+    layoutMode === 'Glyphs' ? Math.max(countGlyphs(text) - 1, 0) : 0
+  return (
+    Math.max(transition.duration, 0) +
+    Math.max(transition.stagger, 0) * staggeredGlyphs
+  )
+}
+
+// 0 at rest, 1 fully collapsed (or dissolved).
+function getTransitionAmount(
+  transition: TextTransitionSettings,
+  phase: TransitionPhase,
+  elapsed: number,
+): number {
+  if (phase === 'idle') {
+    return 0
+  }
+
+  const progress = clamp(elapsed / Math.max(transition.duration, 0.001), 0, 1)
+  const ease = gsap.parseEase(transition.ease) ?? ((value: number) => value)
+  const eased = clamp(ease(progress), 0, 1)
+  return phase === 'out' ? eased : 1 - eased
+}
+
+function createImpulse(
+  options: ImpulseOptions,
+  defaultMode: DistortionCharacterMode,
+  x: number,
+  y: number,
+  z: number,
+): ActiveImpulse {
+  return {
+    x,
+    y,
+    z,
+    radius: Math.max(options.radius ?? 1.4, 0.0001),
+    strength: clamp(options.strength ?? 1, 0, 2),
+    mode: options.mode ?? defaultMode,
+    duration: Math.max(options.duration ?? 0.9, 0.05),
+    age: 0,
+  }
+}
+
+function pushImpulse(impulses: ActiveImpulse[], impulse: ActiveImpulse): void {
+  impulses.push(impulse)
+  if (impulses.length > MAX_ACTIVE_IMPULSES) {
+    impulses.splice(0, impulses.length - MAX_ACTIVE_IMPULSES)
+  }
+}
+
+// Rigid shards and soft body constraints are solved on the CPU, so both pin
+// the inline solver.
+function getEffectiveSolver({
+  solver,
+  shatter,
+  softBody,
+}: Pick<SimulationProps, 'solver' | 'shatter' | 'softBody'>): SimulationSolver {
+  return shatter.enabled || softBody.enabled ? 'CPU' : solver
+}
+
+// The solvers deform the mesh's geometry in place, and seam changes rebuild
+// the displacement normals, so the mesh remounts with a fresh copy of the
+// source geometry whenever either changes.
+function getSimulationKey(
+  props: Pick<SimulationProps, 'solver' | 'shatter' | 'softBody' | 'seams'>,
+): string {
+  const { seams } = props
+  return `${getEffectiveSolver(props)}:${seams.mode}:${seams.tearAngle}:${seams.tearCoverage}:${seams.tearAmount}:${seams.innerWalls}`
+}
+
 function randomSignedWithBiasFromUnit(unit: number, centerBias: number): number {
   const random = unit * 2 - 1
   const exponent = 1 + clamp(centerBias, 0, 1) * 2.5
   return Math.sign(random) * Math.pow(Math.abs(random), exponent)
 }
 
-export function ElasticText({
-  text,
-  font,
-  size,
-  depth,
-  bevelEnabled,
-  bevelSize,
-  bevelThickness,
-  curveSegments,
+function ElasticMesh({
   paused,
   seed,
   meshKey,
+  solver: requestedSolver,
+  stepRate,
+  normals,
+  seams,
+  shatter,
+  groundY,
+  groundYOverrideRef,
+  plasticity,
+  softBody,
+  healRef,
+  pathRecorder,
+  performanceRecorder,
+  performancePlayer,
+  debugOverlays,
+  geometry: sourceGeometry,
+  variation,
+  glyphIndex,
+  transition,
+  layer,
+  transitionClocksRef,
+  transitionDelay = 0,
   distortion,
-  automation,
+  automation: automationSettings,
+  debug,
   distortionOverrideRef,
+  automationOverrideRef,
+  impulsesRef,
+  externalEmittersRef,
+  clickImpulse,
   onTogglePause,
-}: ElasticTextProps) {
+  onSolverStarted,
+}: ElasticMeshProps) {
   const meshRef = useRef<Mesh>(null)
   const materialRef = useRef<MeshStandardMaterial>(null)
   const shaderRef = useRef<EmissiveShader | null>(null)
   const simulationRef = useRef<SimulationState | null>(null)
+  const gpuSolverRef = useRef<GpuVertexSolver | null>(null)
+  const workerSolverRef = useRef<WorkerVertexSolver | null>(null)
+  const shatterSolverRef = useRef<ShatterSolver | null>(null)
+  const softBodySolverRef = useRef<SoftBodySolver | null>(null)
+  const normalSolverRef = useRef<NormalSolver | null>(null)
+  const debugOverlayRef = useRef<SimulationDebugOverlay | null>(null)
+  const gl = useThree((state) => state.gl)
+  const solver = getEffectiveSolver({
+    solver: requestedSolver,
+    shatter,
+    softBody,
+  })
+  // GPU positions never reach the CPU, so Smooth falls back to derivative
+  // (faceted) shading there.
+  const smoothNormals = normals.mode === 'Smooth' && solver !== 'GPU'
+  const flatShading =
+    normals.mode === 'Faceted' || (normals.mode === 'Smooth' && !smoothNormals)
+  const seamLayout = useMemo(
+    () => createSeamLayout(sourceGeometry, seams),
+    [seams, sourceGeometry],
+  )
+  // Inner walls are appended after the surface triangles so the draw range
+  // can leave them out.
+  const ownedGeometry = useMemo(() => {
+    const geometry = sourceGeometry.clone()
+    const { wallIndices } = seamLayout
+    if (wallIndices.length > 0) {
+      const vertexCount = geometry.getAttribute('position').count
+      const surface = geometry.getIndex()?.array
+      const surfaceCount = surface?.length ?? vertexCount
+      const indices = new Uint32Array(surfaceCount + wallIndices.length)
+      for (let corner = 0; corner < surfaceCount; corner += 1) {
+        indices[corner] = surface ? surface[corner] : corner
+      }
+      indices.set(wallIndices, surfaceCount)
+      geometry.setIndex(new BufferAttribute(indices, 1))
+    }
+    return geometry
+  }, [seamLayout, sourceGeometry])
 
   const timeRef = useRef(0)
-  const noise3dRef = useRef(createNoise3D())
-
-  const pointerCurrentRef = useRef(new Vector3())
-  const pointerTargetRef = useRef(new Vector3())
-  const manualPointerTargetRef = useRef(new Vector3())
-  const pointerPressRef = useRef({ value: 0 })
-  const automationPointerTargetRef = useRef(new Vector3())
-  const automationPointerPressRef = useRef({ value: 0 })
-  const pointerBlendRef = useRef(new Vector3())
+  const accumulatorRef = useRef(0)
+  // Heal tween progress this mesh has already applied.
+  const healProgressRef = useRef(1)
+  // Simulated seconds this mesh has stepped into each active impulse.
+  const impulseAgesRef = useRef(new WeakMap<ActiveImpulse, number>())
+  const noise3d = useMemo(() => createSeededNoise3D(seed), [seed])
+  // Incoming layers mount fully dissolved so they never flash in at rest.
+  const dissolveRef = useRef(layer.phase === 'in' ? 1 : 0)
+
+  const pointerEmittersRef = useRef(new Map<number, PointerEmitter>())
+  const replayTargetRef = useRef(new Vector3())
+  const automationEmittersRef = useRef<AutomationEmitter[]>([])
   const boundsRef = useRef<TextBounds>({
     minX: -1,
     maxX: 1,
@@ -170,16 +741,12 @@ export function ElasticText({
     minZ: -0.5,
     maxZ: 0.5,
   })
-  const bpmAutomationRef = useRef<BpmAutomationState>({
-    stepIndex: -1,
-    from: new Vector3(),
-    to: new Vector3(),
-  })
-
-  const scratchVectorRef = useRef(new Vector3())
-  const scratchEulerRef = useRef(new Euler())
-
   const initializeSimulation = useCallback(() => {
+    gpuSolverRef.current?.dispose()
+    gpuSolverRef.current = null
+    workerSolverRef.current?.dispose()
+    workerSolverRef.current = null
+
     const mesh = meshRef.current
     if (!mesh) {
       simulationRef.current = null
@@ -188,8 +755,6 @@ export function ElasticText({
 
     const geometry = mesh.geometry
     geometry.computeBoundingBox()
-    geometry.center()
-    geometry.computeBoundingBox()
     geometry.computeBoundingSphere()
 
     const position = geometry.getAttribute('position')
@@ -201,20 +766,72 @@ export function ElasticText({
     }
 
     const positionArray = position.array as Float32Array
+    timeRef.current = 0
+    accumulatorRef.current = 0
 
     const velocityArray = new Float32Array(positionArray.length)
     const velocityAttribute = new BufferAttribute(velocityArray, 3)
     geometry.setAttribute('aVelocity', velocityAttribute)
 
+    // Per-vertex dissolve threshold from smooth noise over the rest pose, kept
+    // below 1 so a full dissolve discards every fragment.
+    const dissolveArray = new Float32Array(positionArray.length / 3)
+    for (let index = 0; index < dissolveArray.length; index += 1) {
+      const offset = index * 3
+      const value = dissolveNoise3d(
+        positionArray[offset] * 1.7,
+        positionArray[offset + 1] * 1.7,
+        positionArray[offset + 2] * 1.7,
+      )
+      dissolveArray[index] = clamp(0.5 + value * 0.6, 0, 0.999)
+    }
+    geometry.setAttribute('aDissolve', new BufferAttribute(dissolveArray, 1))
+
     simulationRef.current = {
       geometry,
       positionArray,
       basePositionArray: new Float32Array(positionArray),
-      baseNormalArray: new Float32Array(normal.array as Float32Array),
+      restPositionArray: new Float32Array(positionArray),
+      baseNormalArray: new Float32Array(seamLayout.displacementNormalArray),
+      shadingNormalArray: new Float32Array(normal.array as Float32Array),
       velocityArray,
       velocityAttribute,
     }
 
+    let activeSolver: SimulationSolver = 'CPU'
+    if (solver === 'GPU') {
+      try {
+        const gpuSolver = new GpuVertexSolver(gl, simulationRef.current)
+        geometry.setAttribute(
+          'aSimUv',
+          new BufferAttribute(gpuSolver.lookupArray, 2),
+        )
+        gpuSolverRef.current = gpuSolver
+        activeSolver = 'GPU'
+
+        const shader = shaderRef.current
+        if (shader) {
+          shader.uniforms.uSimPosition.value = gpuSolver.positionTexture
+          shader.uniforms.uSimVelocity.value = gpuSolver.velocityTexture
+        }
+      } catch {
+        // Without float render targets the inline loop steps the text
+        // instead.
+      }
+    } else if (solver === 'Worker' && isWorkerSimulationSupported()) {
+      const simulation = simulationRef.current
+      workerSolverRef.current = new WorkerVertexSolver(
+        simulation,
+        () => {
+          simulation.geometry.attributes.position.needsUpdate = true
+          simulation.velocityAttribute.needsUpdate = true
+        },
+        () => onSolverStarted?.(solver, 'CPU'),
+      )
+      activeSolver = 'Worker'
+    }
+    onSolverStarted?.(solver, activeSolver)
+
     const bounds = geometry.boundingBox
     if (bounds) {
       boundsRef.current = {
@@ -231,20 +848,36 @@ export function ElasticText({
     const centerY = (boundsRef.current.minY + boundsRef.current.maxY) * 0.5
     const centerZ = (boundsRef.current.minZ + boundsRef.current.maxZ) * 0.5
 
-    pointerCurrentRef.current.set(centerX, centerY, centerZ)
-    pointerTargetRef.current.set(centerX, centerY, centerZ)
-    manualPointerTargetRef.current.set(centerX, centerY, centerZ)
-    automationPointerTargetRef.current.set(centerX, centerY, centerZ)
-    pointerPressRef.current.value = 0
-    automationPointerPressRef.current.value = 0
-    bpmAutomationRef.current.stepIndex = -1
-    bpmAutomationRef.current.from.set(centerX, centerY, centerZ)
-    bpmAutomationRef.current.to.set(centerX, centerY, centerZ)
-  }, [])
+    for (const pointerEmitter of pointerEmittersRef.current.values()) {
+      gsap.killTweensOf(pointerEmitter.press)
+    }
+    pointerEmittersRef.current.clear()
+
+    automationEmittersRef.current = Array.from(
+      { length: MAX_AUTOMATION_EMITTERS },
+      () => ({
+        target: new Vector3(centerX, centerY, centerZ),
+        current: new Vector3(centerX, centerY, centerZ),
+        press: 0,
+        bpm: {
+          stepIndex: -1,
+          from: new Vector3(centerX, centerY, centerZ),
+          to: new Vector3(centerX, centerY, centerZ),
+        },
+      }),
+    )
+
+    // The material reads positions from wherever the solver that actually
+    // started keeps them.
+    const material = materialRef.current
+    if (material) {
+      material.needsUpdate = true
+    }
+  }, [gl, onSolverStarted, seamLayout, solver])
 
-  const engagePointer = useCallback(() => {
-    gsap.killTweensOf(pointerPressRef.current)
-    gsap.to(pointerPressRef.current, {
+  const engagePointer = useCallback((pointerEmitter: PointerEmitter) => {
+    gsap.killTweensOf(pointerEmitter.press)
+    gsap.to(pointerEmitter.press, {
       value: 1,
       duration: 0.08,
       ease: 'power2.out',
@@ -252,13 +885,24 @@ export function ElasticText({
     })
   }, [])
 
-  const releasePointer = useCallback(() => {
-    gsap.killTweensOf(pointerPressRef.current)
-    gsap.to(pointerPressRef.current, {
+  const releasePointer = useCallback((pointerId: number) => {
+    const pointerEmitters = pointerEmittersRef.current
+    const pointerEmitter = pointerEmitters.get(pointerId)
+    if (!pointerEmitter) {
+      return
+    }
+
+    gsap.killTweensOf(pointerEmitter.press)
+    gsap.to(pointerEmitter.press, {
       value: 0,
       duration: 0.35,
       ease: 'expo.out',
       overwrite: true,
+      onComplete: () => {
+        if (pointerEmitters.get(pointerId) === pointerEmitter) {
+          pointerEmitters.delete(pointerId)
+        }
+      },
     })
   }, [])
 
@@ -269,22 +913,72 @@ export function ElasticText({
       }
 
       const localPoint = meshRef.current.worldToLocal(event.point.clone())
-      manualPointerTargetRef.current.copy(localPoint)
-      engagePointer()
+      const pointerEmitters = pointerEmittersRef.current
+      let pointerEmitter = pointerEmitters.get(event.pointerId)
+
+      if (!pointerEmitter) {
+        pointerEmitter = {
+          target: localPoint.clone(),
+          current: localPoint.clone(),
+          press: { value: 0 },
+        }
+        pointerEmitters.set(event.pointerId, pointerEmitter)
+      }
+
+      pointerEmitter.target.copy(localPoint)
+      engagePointer(pointerEmitter)
+      pathRecorder.record(localPoint.x, localPoint.y, localPoint.z, 1)
     },
-    [engagePointer, paused],
+    [engagePointer, pathRecorder, paused],
   )
 
-  const handlePointerOut = useCallback(() => {
-    releasePointer()
-  }, [releasePointer])
+  const handlePointerOut = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      const target = pointerEmittersRef.current.get(event.pointerId)?.target
+      if (target) {
+        pathRecorder.record(target.x, target.y, target.z, 0)
+      }
+      releasePointer(event.pointerId)
+    },
+    [pathRecorder, releasePointer],
+  )
 
   const handleClick = useCallback(
     (event: ThreeEvent<MouseEvent>) => {
       event.stopPropagation()
-      onTogglePause()
+      if (!performanceRecorder.recording || paused || !meshRef.current) {
+        onTogglePause()
+        return
+      }
+
+      // Clicks are part of the take: each fires an impulse where it lands.
+      const localPoint = meshRef.current.worldToLocal(event.point.clone())
+      const impulse = createImpulse(
+        clickImpulse,
+        distortion.characterMode,
+        localPoint.x,
+        localPoint.y,
+        localPoint.z,
+      )
+      pushImpulse(impulsesRef.current, impulse)
+      performanceRecorder.recordClick({
+        x: impulse.x,
+        y: impulse.y,
+        z: impulse.z,
+        radius: impulse.radius,
+        strength: impulse.strength,
+        mode: impulse.mode,
+        duration: impulse.duration,
+      })
     },
-    [onTogglePause],
+    [
+      clickImpulse,
+      distortion.characterMode,
+      impulsesRef,
+      onTogglePause,
+      paused,
+      performanceRecorder,
+    ],
   )
 
   useEffect(() => {
@@ -292,16 +986,156 @@ export function ElasticText({
   }, [initializeSimulation, meshKey])
 
   useEffect(() => {
-    const manualPointerPressState = pointerPressRef.current
+    const simulation = simulationRef.current
+    if (!shatter.enabled || !simulation) {
+      shatterSolverRef.current = null
+      return
+    }
+
+    // Per-glyph meshes are a single piece; the merged word carries glyph ids.
+    const glyphIds =
+      shatter.granularity === 'Glyphs'
+        ? (simulation.geometry.getAttribute('aGlyph')?.array ??
+          new Float32Array(simulation.basePositionArray.length / 3))
+        : null
+    shatterSolverRef.current = new ShatterSolver(
+      simulation.geometry,
+      simulation,
+      shatter.shardSize,
+      seed,
+      glyphIds,
+    )
+  }, [
+    initializeSimulation,
+    meshKey,
+    seed,
+    shatter.enabled,
+    shatter.granularity,
+    shatter.shardSize,
+  ])
+
+  useEffect(() => {
+    const simulation = simulationRef.current
+    if (!softBody.enabled || !simulation) {
+      softBodySolverRef.current = null
+      return
+    }
+
+    const surfaceCornerCount =
+      (simulation.geometry.getIndex()?.count ??
+        simulation.basePositionArray.length / 3) -
+      seamLayout.wallIndices.length
+    softBodySolverRef.current = new SoftBodySolver(
+      simulation.geometry,
+      simulation,
+      surfaceCornerCount,
+      simulation.geometry.getAttribute('aGlyph')?.array ?? null,
+    )
+  }, [initializeSimulation, meshKey, seamLayout, softBody.enabled])
+
+  useEffect(() => {
+    const simulation = simulationRef.current
+    if (!smoothNormals || !simulation) {
+      normalSolverRef.current = null
+      return
+    }
+
+    const normalSolver = new NormalSolver(
+      simulation.geometry,
+      simulation,
+      simulation.shadingNormalArray,
+    )
+    normalSolverRef.current = normalSolver
+
+    return () => {
+      normalSolver.restore()
+      if (normalSolverRef.current === normalSolver) {
+        normalSolverRef.current = null
+      }
+    }
+  }, [initializeSimulation, meshKey, smoothNormals])
+
+  useEffect(() => {
+    const simulation = simulationRef.current
+    const mesh = meshRef.current
+    if (!debug.enabled || !simulation || !mesh) {
+      debugOverlayRef.current = null
+      return
+    }
+
+    const debugOverlay = new SimulationDebugOverlay(
+      simulation.positionArray.length / 3,
+    )
+    mesh.add(debugOverlay.group)
+    debugOverlays.add(debugOverlay)
+    debugOverlayRef.current = debugOverlay
 
     return () => {
-      gsap.killTweensOf(manualPointerPressState)
+      debugOverlays.delete(debugOverlay)
+      debugOverlay.dispose()
+      if (debugOverlayRef.current === debugOverlay) {
+        debugOverlayRef.current = null
+      }
+    }
+  }, [debug.enabled, debugOverlays, initializeSimulation, meshKey])
+
+  useEffect(() => {
+    const material = materialRef.current
+    if (material) {
+      material.needsUpdate = true
+    }
+  }, [flatShading])
+
+  // Walls between rigid shards would stretch across the gaps like webbing.
+  useEffect(() => {
+    const wallCount = seamLayout.wallIndices.length
+    const index = ownedGeometry.getIndex()
+    ownedGeometry.setDrawRange(
+      0,
+      shatter.enabled && index && wallCount > 0
+        ? index.count - wallCount
+        : Infinity,
+    )
+  }, [ownedGeometry, seamLayout, shatter.enabled])
+
+  useEffect(() => {
+    return () => {
+      ownedGeometry.dispose()
+    }
+  }, [ownedGeometry])
+
+  useEffect(() => {
+    return () => {
+      gpuSolverRef.current?.dispose()
+      gpuSolverRef.current = null
+      workerSolverRef.current?.dispose()
+      workerSolverRef.current = null
     }
   }, [])
 
   useEffect(() => {
-    bpmAutomationRef.current.stepIndex = -1
-  }, [automation.mode, automation.bpm, automation.stepsPerBeat])
+    const pointerEmitters = pointerEmittersRef.current
+
+    return () => {
+      for (const pointerEmitter of pointerEmitters.values()) {
+        gsap.killTweensOf(pointerEmitter.press)
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    for (
+      let index = 0;
+      index < automationEmittersRef.current.length;
+      index += 1
+    ) {
+      automationEmittersRef.current[index].bpm.stepIndex = -1
+    }
+  }, [
+    automationSettings.mode,
+    automationSettings.bpm,
+    automationSettings.stepsPerBeat,
+  ])
 
   useFrame((_, delta) => {
     const simulation = simulationRef.current
@@ -310,22 +1144,65 @@ export function ElasticText({
     }
 
     const distortionOverride = distortionOverrideRef?.current
-    const activeDistortion = distortionOverride
+    const overriddenDistortion = distortionOverride
       ? { ...distortion, ...distortionOverride }
       : distortion
+    const automationOverride = automationOverrideRef?.current
+    const automation = automationOverride
+      ? { ...automationSettings, ...automationOverride }
+      : automationSettings
+    const activeDistortion = variation
+      ? {
+          ...overriddenDistortion,
+          stiffness: overriddenDistortion.stiffness * variation.stiffnessScale,
+          damping: Math.max(
+            overriddenDistortion.damping + variation.dampingOffset,
+            0,
+          ),
+        }
+      : overriddenDistortion
+
+    const transitionClock = transitionClocksRef.current.get(layer.id)
+    const transitionAmount = getTransitionAmount(
+      transition,
+      layer.phase,
+      (transitionClock?.phase === layer.phase ? transitionClock.elapsed : 0) -
+        layer.delay -
+        transitionDelay,
+    )
+    // Collapse and shatter only fade out the tail end of the motion.
+    dissolveRef.current =
+      transition.style === 'Dissolve'
+        ? transitionAmount
+        : smoothstep(0.55, 1, transitionAmount)
 
     const shader = shaderRef.current
     if (shader) {
       shader.uniforms.uEmissiveBaseColor.value.set(activeDistortion.emissive)
       shader.uniforms.uEmissiveBoost.value = activeDistortion.emissiveVelocityBoost
       shader.uniforms.uEmissiveIntensity.value = activeDistortion.emissiveIntensity
+      shader.uniforms.uDissolve.value = dissolveRef.current
+      shader.uniforms.uHeatmap.value = debug.enabled && debug.heatmap ? 1 : 0
+      shader.uniforms.uHeatmapMaxVelocity.value = Math.max(
+        debug.heatmapMaxVelocity,
+        1e-3,
+      )
     }
 
     if (paused) {
       return
     }
 
-    timeRef.current += delta
+    const timeStep = 1 / Math.max(stepRate, 1)
+    accumulatorRef.current += Math.min(delta, MAX_FRAME_DELTA)
+    const substeps = Math.floor((accumulatorRef.current + 1e-9) / timeStep)
+    accumulatorRef.current = Math.max(
+      accumulatorRef.current - substeps * timeStep,
+      0,
+    )
+    const simulationTime = timeRef.current
+    timeRef.current += substeps * timeStep
+    const automationTime = timeRef.current - (variation?.timeOffset ?? 0)
 
     const bounds = boundsRef.current
     const width = Math.max(bounds.maxX - bounds.minX, 0.001)
@@ -338,14 +1215,31 @@ export function ElasticText({
     const centerY = (bounds.maxY + bounds.minY) * 0.5
     const centerZ = (bounds.maxZ + bounds.minZ) * 0.5
 
-    const automationTarget = automationPointerTargetRef.current
-    const automationPressState = automationPointerPressRef.current
-    automationPressState.value = 0
+    const followAlpha = 1 - Math.exp(-delta * activeDistortion.followRate)
+    const emitters: EmitterFrame[] = []
+
+    // Automation emitter 0 stays live while automation is off so idleMix keeps
+    // a resting influence, matching the single-pointer behaviour.
+    const automationActive = automation.enabled && automation.mode !== 'Off'
+    const automationCount = automationActive
+      ? clamp(Math.round(automation.emitterCount), 1, MAX_AUTOMATION_EMITTERS)
+      : 1
+
+    for (let index = 0; index < automationCount; index += 1) {
+      const automationEmitter = automationEmittersRef.current[index]
+      if (!automationEmitter) {
+        break
+      }
 
-    if (automation.enabled && automation.mode !== 'Off') {
-      if (automation.mode === 'Sweep') {
+      const automationTarget = automationEmitter.target
+      automationEmitter.press = 0
+
+      if (automationActive && automation.mode === 'Sweep') {
         const cycleSeconds = Math.max(automation.sweepCycleSeconds, 0.1)
-        const phase = (timeRef.current / cycleSeconds) * Math.PI * 2
+        const phase =
+          (automationTime / cycleSeconds + index / automationCount) *
+          Math.PI *
+          2
         const xNorm = Math.sin(phase)
         const xTravel = halfWidth * clamp(automation.sweepWidth, 0.05, 1.3)
         const curveLift = (1 - xNorm * xNorm) * automation.sweepCurve * halfHeight
@@ -362,23 +1256,24 @@ export function ElasticText({
           clamp(targetY, centerY - yLimit, centerY + yLimit),
           targetZ,
         )
-        automationPressState.value = clamp(automation.intensity, 0, 1)
-      } else if (automation.mode === 'BPM Buzz') {
+        automationEmitter.press = clamp(automation.intensity, 0, 1)
+      } else if (automationActive && automation.mode === 'BPM Buzz') {
         const bpm = Math.max(automation.bpm, 1)
         const stepsPerBeat = Math.max(1, automation.stepsPerBeat)
         const stepDuration = 60 / (bpm * stepsPerBeat)
-        const stepPosition = timeRef.current / stepDuration
+        const stepPosition = automationTime / stepDuration
         const stepIndex = Math.floor(stepPosition)
         const stepProgress = stepPosition - stepIndex
 
-        const bpmState = bpmAutomationRef.current
+        const bpmState = automationEmitter.bpm
         if (stepIndex !== bpmState.stepIndex) {
           bpmState.stepIndex = stepIndex
           bpmState.from.copy(automationTarget)
 
           const spreadX = clamp(automation.spreadX, 0.05, 1.3)
           const spreadY = clamp(automation.spreadY, 0.05, 1.3)
-          const randomSeedBase = seed * 0.173 + stepIndex * 1.4142
+          const randomSeedBase =
+            seed * 0.173 + stepIndex * 1.4142 + index * 97.31
           const xNorm = randomSignedWithBiasFromUnit(
             hashToUnit(randomSeedBase + 13.11),
             automation.centerBias,
@@ -423,263 +1318,879 @@ export function ElasticText({
             envelope = (1 - buzzProgress) / release
           }
 
-          automationPressState.value = clamp(
+          automationEmitter.press = clamp(
             envelope * automation.intensity,
             0,
             1,
           )
         }
-      }
-    }
+      } else if (automationActive && automation.mode === 'Lissajous') {
+        const cycleSeconds = Math.max(automation.lissajousSeconds, 0.1)
+        const phase =
+          (automationTime / cycleSeconds + index / automationCount) *
+          Math.PI *
+          2
+        const xRange = halfWidth * clamp(automation.spreadX, 0.05, 1.3)
+        const yRange = halfHeight * clamp(automation.spreadY, 0.05, 1.3)
+
+        automationTarget.set(
+          centerX +
+            Math.sin(
+              phase * automation.lissajousX +
+                automation.lissajousPhase * Math.PI * 2,
+            ) *
+              xRange,
+          centerY + Math.sin(phase * automation.lissajousY) * yRange,
+          centerZ +
+            Math.sin(phase * automation.lissajousZ) *
+              automation.sweepDepth *
+              (halfDepth + 0.25) +
+            automation.pointerZOffset,
+        )
+        automationEmitter.press = clamp(automation.intensity, 0, 1)
+      } else if (automationActive && automation.mode === 'Random Walk') {
+        // Smooth noise per emitter lane, clamped so the walk never leaves the
+        // text bounds.
+        const wanderTime = automationTime * Math.max(automation.wanderSpeed, 0)
+        const lane = seed * 0.013 + index * 17.31
+        const xRange = halfWidth * clamp(automation.spreadX, 0.05, 1)
+        const yRange = halfHeight * clamp(automation.spreadY, 0.05, 1)
 
-    const manualPress = pointerPressRef.current.value
-    const automationPress = automationPressState.value
-    const totalPress = manualPress + automationPress
+        automationTarget.set(
+          centerX +
+            clamp(wanderNoise3d(wanderTime, lane, 0) * 1.4, -1, 1) * xRange,
+          centerY +
+            clamp(wanderNoise3d(wanderTime, lane, 7.7) * 1.4, -1, 1) * yRange,
+          centerZ +
+            wanderNoise3d(wanderTime, lane, 15.4) *
+              automation.sweepDepth *
+              (halfDepth + 0.25) +
+            automation.pointerZOffset,
+        )
+        automationEmitter.press = clamp(automation.intensity, 0, 1)
+      } else if (automationActive && automation.mode === 'Orbit') {
+        const cycleSeconds = Math.max(automation.orbitSeconds, 0.1)
+        const phase =
+          (automationTime / cycleSeconds + index / automationCount) *
+          Math.PI *
+          2
+        const tilt = clamp(automation.orbitTilt, 0, 1) * Math.PI * 0.5
+        const xRange = halfWidth * clamp(automation.spreadX, 0.05, 1.3)
+        const yRange = halfHeight * clamp(automation.spreadY, 0.05, 1.3)
+        const swing = Math.sin(phase)
+
+        automationTarget.set(
+          centerX + Math.cos(phase) * xRange,
+          centerY + swing * yRange * Math.cos(tilt),
+          centerZ +
+            swing * (halfDepth + yRange) * Math.sin(tilt) +
+            automation.pointerZOffset,
+        )
+        automationEmitter.press = clamp(automation.intensity, 0, 1)
+      } else if (
+        automationActive &&
+        automation.mode === 'Recorded' &&
+        automation.recordedPath
+      ) {
+        const recordedPath = automation.recordedPath
+        // Extra emitters replay the same take, spread evenly over the loop.
+        const press = samplePointerPath(
+          recordedPath,
+          automationTime * Math.max(automation.recordedTimeScale, 0) +
+            (index / automationCount) * recordedPath.duration,
+          automationTarget,
+        )
+        automationEmitter.press = clamp(press * automation.intensity, 0, 1)
+      }
 
-    if (totalPress > 0.0001) {
-      pointerBlendRef.current
-        .set(0, 0, 0)
-        .addScaledVector(manualPointerTargetRef.current, manualPress)
-        .addScaledVector(automationTarget, automationPress)
-        .multiplyScalar(1 / totalPress)
-      pointerTargetRef.current.copy(pointerBlendRef.current)
+      automationEmitter.current.lerp(automationTarget, followAlpha)
+      emitters.push({
+        x: automationEmitter.current.x,
+        y: automationEmitter.current.y,
+        z: automationEmitter.current.z,
+        radius: activeDistortion.radius,
+        press: automationEmitter.press,
+        mode: activeDistortion.characterMode,
+      })
     }
 
-    const followAlpha = 1 - Math.exp(-delta * activeDistortion.followRate)
-    pointerCurrentRef.current.lerp(pointerTargetRef.current, followAlpha)
-
-    const press = Math.max(manualPress, automationPress)
-    const idleMix = activeDistortion.idleMix
-    const mixFactor = Math.max(press, idleMix)
-
-    const pointer = pointerCurrentRef.current
-    const positionArray = simulation.positionArray
-    const basePositionArray = simulation.basePositionArray
-    const baseNormalArray = simulation.baseNormalArray
-    const velocityArray = simulation.velocityArray
-
-    const noise3d = noise3dRef.current
-    const frequency = activeDistortion.noiseFrequency
-    const t = timeRef.current * activeDistortion.noiseSpeed + seed * 0.001
-    const radius = Math.max(activeDistortion.radius, 0.0001)
-
-    const scratchVector = scratchVectorRef.current
-    const scratchEuler = scratchEulerRef.current
-
-    for (let i = 0; i < positionArray.length; i += 3) {
-      const baseX = basePositionArray[i]
-      const baseY = basePositionArray[i + 1]
-      const baseZ = basePositionArray[i + 2]
-
-      const currentX = positionArray[i]
-      const currentY = positionArray[i + 1]
-      const currentZ = positionArray[i + 2]
-
-      const normalX = baseNormalArray[i]
-      const normalY = baseNormalArray[i + 1]
-      const normalZ = baseNormalArray[i + 2]
-
-      const dx = baseX - pointer.x
-      const dy = baseY - pointer.y
-      const dz = baseZ - pointer.z
-      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
-
-      const withinRadius = distance <= radius
-      const pointerInfluence = withinRadius ? activeDistortion.explodeAmplitude : 0
-      const pointerFalloff = withinRadius
-        ? 1 - clamp(distance / radius, 0, 1)
-        : 0
-
-      const noiseX = noise3d(currentX * frequency + seed * 0.17, currentY * frequency + t, currentZ * frequency)
-      const noiseY = noise3d(currentX * frequency, currentY * frequency + 23.713 + t, currentZ * frequency + seed * 0.31)
-      const noiseZ = noise3d(currentX * frequency + seed * 0.59, currentY * frequency + t, currentZ * frequency + 51.219)
-
-      let distortedX = baseX + noiseX * normalX * pointerInfluence * activeDistortion.noiseAmplitude
-      let distortedY = baseY + noiseY * normalY * pointerInfluence * activeDistortion.noiseAmplitude
-      let distortedZ = baseZ + noiseZ * normalZ * pointerInfluence * activeDistortion.noiseAmplitude
-
-      if (pointerInfluence > 0) {
-        const rotationFactor = distance * pointerInfluence * activeDistortion.rotationAmplitude
-
-        scratchEuler.set(
-          normalX * rotationFactor,
-          normalY * rotationFactor,
-          normalZ * rotationFactor,
+    for (const [pointerId, pointerEmitter] of pointerEmittersRef.current) {
+      pointerEmitter.current.lerp(pointerEmitter.target, followAlpha)
+      emitters.push({
+        x: pointerEmitter.current.x,
+        y: pointerEmitter.current.y,
+        z: pointerEmitter.current.z,
+        radius: activeDistortion.radius,
+        press: pointerEmitter.press.value,
+        mode: activeDistortion.characterMode,
+      })
+      // The eased influence is recorded, so replay skips the follow and the
+      // press tweens, which run on wall-clock time.
+      if (layer.phase !== 'out') {
+        performanceRecorder.record(
+          pointerId,
+          glyphIndex ?? null,
+          pointerEmitter.current.x,
+          pointerEmitter.current.y,
+          pointerEmitter.current.z,
+          pointerEmitter.press.value,
         )
+      }
+    }
 
-        scratchVector.set(distortedX, distortedY, distortedZ).applyEuler(scratchEuler)
-        distortedX = scratchVector.x
-        distortedY = scratchVector.y
-        distortedZ = scratchVector.z
-
-        const characterStrength =
-          activeDistortion.characterStrength * pointerFalloff * press
-        const inverseDistance = 1 / Math.max(distance, 0.0001)
-        const radialX = (baseX - pointer.x) * inverseDistance
-        const radialY = (baseY - pointer.y) * inverseDistance
-        const radialZ = (baseZ - pointer.z) * inverseDistance
-
-        switch (activeDistortion.characterMode) {
-          case 'Shear': {
-            const shear =
-              characterStrength *
-              (0.55 + 0.45 * Math.sin(baseY * 3.2 + t * 2.1 + seed * 0.07))
-            distortedX +=
-              (baseY - pointer.y) * shear * 0.7 +
-              noiseY * characterStrength * 0.24
-            distortedZ += shear * 0.22 + noiseZ * characterStrength * 0.15
-            break
-          }
-          case 'Rip': {
-            const ripWave =
-              Math.sin(distance * 20 - t * 9 + noiseX * 3.1 + seed * 0.3) *
-              characterStrength
-            distortedX += radialX * ripWave * 0.62
-            distortedY += radialY * ripWave * 0.38
-            distortedZ += radialZ * ripWave * 0.58
-            break
-          }
-          case 'Crunch': {
-            const crunchPull =
-              characterStrength * (0.45 + pointerFalloff * 0.9)
-            distortedX += (pointer.x - distortedX) * crunchPull * 0.42
-            distortedY += (pointer.y - distortedY) * crunchPull * 0.44
-            distortedZ += (pointer.z - distortedZ) * crunchPull * 0.34
-            distortedX += noiseX * crunchPull * 0.22
-            distortedY += noiseY * crunchPull * 0.18
-            break
-          }
-          case 'Melt': {
-            const melt =
-              characterStrength *
-              (0.6 + 0.4 * Math.sin(baseX * 2.7 + t * 1.9 + seed * 0.11))
-            distortedY -= melt * (0.62 + pointerFalloff * 0.48)
-            distortedX += noiseZ * melt * 0.24
-            distortedZ += noiseY * melt * 0.21
-            break
-          }
-          case 'Organic':
-          default:
-            break
-        }
+    // Tracks from a per-glyph take only drive the glyph they were recorded
+    // on; word tracks, or a word mesh, take them all.
+    const replayTarget = replayTargetRef.current
+    for (const track of performancePlayer.tracks) {
+      if (
+        track.glyph !== null &&
+        glyphIndex !== undefined &&
+        track.glyph !== glyphIndex
+      ) {
+        continue
       }
 
-      const targetX = baseX + (distortedX - baseX) * mixFactor
-      const targetY = baseY + (distortedY - baseY) * mixFactor
-      const targetZ = baseZ + (distortedZ - baseZ) * mixFactor
+      const press = performancePlayer.sample(track, replayTarget)
+      emitters.push({
+        x: replayTarget.x,
+        y: replayTarget.y,
+        z: replayTarget.z,
+        radius: activeDistortion.radius,
+        press: clamp(press, 0, 1),
+        mode: activeDistortion.characterMode,
+      })
+    }
 
-      let velocityX = velocityArray[i]
-      let velocityY = velocityArray[i + 1]
-      let velocityZ = velocityArray[i + 2]
+    for (const externalEmitter of externalEmittersRef.current.values()) {
+      const [x, y, z] = externalEmitter.position
+      emitters.push({
+        x,
+        y,
+        z,
+        radius: externalEmitter.radius ?? activeDistortion.radius,
+        press: clamp(externalEmitter.press ?? 1, 0, 1),
+        mode: externalEmitter.mode ?? activeDistortion.characterMode,
+      })
+    }
 
-      velocityX += (targetX - currentX) * activeDistortion.spring
-      velocityY += (targetY - currentY) * activeDistortion.spring
-      velocityZ += (targetZ - currentZ) * activeDistortion.spring
+    const debugOverlay = debugOverlayRef.current
+    debugOverlay?.update(
+      debug,
+      emitters,
+      automationActive
+        ? automationEmittersRef.current
+            .slice(0, automationCount)
+            .map((automationEmitter) => automationEmitter.target)
+        : [],
+      bounds,
+    )
+
+    // The shock ring advances with the simulated time stepped this frame, so
+    // it stays in step with the motion it drives.
+    const impulseAges = impulseAgesRef.current
+    const impulses: ImpulseFrame[] = impulsesRef.current.map((impulse) => {
+      const age = impulseAges.get(impulse) ?? 0
+      const steppedAge = age + substeps * timeStep
+      impulseAges.set(impulse, steppedAge)
+      impulse.age = Math.max(impulse.age, steppedAge)
+      return {
+        x: impulse.x,
+        y: impulse.y,
+        z: impulse.z,
+        radius: impulse.radius,
+        strength: impulse.strength,
+        mode: impulse.mode,
+        progress: clamp(age / impulse.duration, 0, 1),
+      }
+    })
 
-      const nextX = currentX + velocityX
-      const nextY = currentY + velocityY
-      const nextZ = currentZ + velocityZ
+    // A single influence centred on the text and large enough to reach every
+    // vertex drives the transition. Outgoing shatters break the shards with a
+    // growing impulse; everything else rides an emitter press.
+    if (transitionAmount > 0 && transition.style !== 'Dissolve') {
+      const transitionRadius = Math.max(halfWidth, halfHeight, halfDepth) * 1.25
+      if (transition.style === 'Shatter' && layer.phase === 'out') {
+        impulses.push({
+          x: centerX,
+          y: centerY,
+          z: centerZ,
+          radius: transitionRadius,
+          strength: clamp(transition.strength, 0, 2),
+          mode: transition.mode,
+          progress: transitionAmount,
+        })
+      } else {
+        emitters.push({
+          x: centerX,
+          y: centerY,
+          z: centerZ,
+          radius: transitionRadius,
+          press: transitionAmount * Math.max(transition.strength, 0),
+          mode: transition.mode,
+        })
+      }
+    }
 
-      velocityX *= activeDistortion.friction
-      velocityY *= activeDistortion.friction
-      velocityZ *= activeDistortion.friction
+    if (substeps === 0) {
+      return
+    }
 
-      positionArray[i] = nextX
-      positionArray[i + 1] = nextY
-      positionArray[i + 2] = nextZ
+    // The heal tween covers whatever share of the remaining damage its
+    // progress advanced by since this mesh last stepped.
+    const healProgress = healRef.current.progress
+    const appliedHealProgress =
+      healProgress < healProgressRef.current ? 0 : healProgressRef.current
+    healProgressRef.current = healProgress
+    const healTween =
+      appliedHealProgress >= 1
+        ? 0
+        : clamp(1 - (1 - healProgress) / (1 - appliedHealProgress), 0, 1)
+    const healDecay = Math.exp(
+      -Math.max(plasticity.healRate, 0) * substeps * timeStep,
+    )
+
+    const frame: SimulationFrame = {
+      time: simulationTime * activeDistortion.noiseSpeed + seed * 0.001,
+      timeStep,
+      substeps,
+      seed,
+      distortion: activeDistortion,
+      emitters,
+      impulses,
+      plasticity: {
+        enabled: plasticity.enabled,
+        yieldDistance: plasticity.yieldDistance,
+        flowRate: plasticity.flowRate,
+        heal: 1 - (1 - healTween) * healDecay,
+      },
+    }
 
-      velocityArray[i] = velocityX
-      velocityArray[i + 1] = velocityY
-      velocityArray[i + 2] = velocityZ
+    const stepStart = debugOverlay ? performance.now() : 0
+    const gpuSolver = gpuSolverRef.current
+    if (gpuSolver) {
+      gpuSolver.step(frame)
 
+      if (shader) {
+        shader.uniforms.uSimPosition.value = gpuSolver.positionTexture
+        shader.uniforms.uSimVelocity.value = gpuSolver.velocityTexture
+      }
+      debugOverlay?.measure(performance.now() - stepStart, null)
+      return
     }
 
-    simulation.geometry.attributes.position.needsUpdate = true
-
-    simulation.velocityAttribute.needsUpdate = true
+    const shatterSolver = shatterSolverRef.current
+    const softBodySolver = softBodySolverRef.current
+    const workerSolver = workerSolverRef.current
+    const mesh = meshRef.current
+    if (shatterSolver && mesh) {
+      // The ground plane `y = groundY` in the mesh's local space: the world y
+      // row of the mesh matrix gives its normal and offset.
+      const elements = mesh.matrixWorld.elements
+      const rowLength = Math.max(
+        Math.hypot(elements[1], elements[5], elements[9]),
+        1e-6,
+      )
+      shatterSolver.step(simulation, frame, shatter, {
+        upX: elements[1] / rowLength,
+        upY: elements[5] / rowLength,
+        upZ: elements[9] / rowLength,
+        height:
+          ((groundYOverrideRef?.current ?? groundY) - elements[13]) /
+          rowLength,
+        collide: shatter.groundCollision,
+      })
+      simulation.geometry.attributes.position.needsUpdate = true
+      simulation.velocityAttribute.needsUpdate = true
+    } else if (softBodySolver) {
+      softBodySolver.step(simulation, frame, softBody, noise3d)
+      simulation.geometry.attributes.position.needsUpdate = true
+      simulation.velocityAttribute.needsUpdate = true
+    } else if (workerSolver && !workerSolver.unavailable) {
+      // Normals below follow whichever worker step last landed.
+      workerSolver.step(frame)
+    } else {
+      stepCpuSimulation(simulation, frame, noise3d)
+
+      simulation.geometry.attributes.position.needsUpdate = true
+
+      simulation.velocityAttribute.needsUpdate = true
+    }
 
+    normalSolverRef.current?.update(simulation, normals.velocityThreshold)
+    // Worker steps land asynchronously; this times the main-thread share and
+    // reads the velocities of the last landed step.
+    debugOverlay?.measure(performance.now() - stepStart, simulation.velocityArray)
   })
 
-  return (
-    <group rotation={[-0.15, 0, 0]}>
-      <Text3D
-        key={meshKey}
-        ref={meshRef}
-        font={font}
-        size={size}
-        height={depth}
-        bevelEnabled={bevelEnabled}
-        bevelSize={bevelSize}
-        bevelThickness={bevelThickness}
-        curveSegments={curveSegments}
-        onPointerMove={handlePointerMove}
-        onPointerOut={handlePointerOut}
-        onPointerUp={handlePointerOut}
-        onClick={handleClick}
-      >
-        {text}
-        <meshStandardMaterial
-          ref={materialRef}
-          color={distortion.color}
-          emissive={distortion.emissive}
-          emissiveIntensity={distortion.emissiveIntensity}
-          roughness={distortion.roughness}
-          metalness={distortion.metalness}
-          wireframe={distortion.wireframe}
-          customProgramCacheKey={() => 'elastic-emissive-velocity-v1'}
-          onBeforeCompile={(shader: EmissiveShader) => {
-            shader.uniforms.uEmissiveBaseColor = {
-              value: new Color(distortion.emissive),
-            }
-            shader.uniforms.uEmissiveBoost = {
-              value: distortion.emissiveVelocityBoost,
-            }
-            shader.uniforms.uEmissiveIntensity = {
-              value: distortion.emissiveIntensity,
-            }
+  const material = (
+    <meshStandardMaterial
+      ref={materialRef}
+      color={distortion.color}
+      emissive={distortion.emissive}
+      emissiveIntensity={distortion.emissiveIntensity}
+      roughness={distortion.roughness}
+      metalness={distortion.metalness}
+      wireframe={distortion.wireframe}
+      flatShading={flatShading}
+      customProgramCacheKey={() =>
+        `elastic-emissive-velocity-v4-${gpuSolverRef.current ? 'GPU' : 'CPU'}`
+      }
+      onBeforeCompile={(shader: EmissiveShader) => {
+        const gpuSolver = gpuSolverRef.current
+        shader.uniforms.uEmissiveBaseColor = {
+          value: new Color(distortion.emissive),
+        }
+        shader.uniforms.uEmissiveBoost = {
+          value: distortion.emissiveVelocityBoost,
+        }
+        shader.uniforms.uEmissiveIntensity = {
+          value: distortion.emissiveIntensity,
+        }
+        shader.uniforms.uDissolve = { value: dissolveRef.current }
+        shader.uniforms.uHeatmap = { value: 0 }
+        shader.uniforms.uHeatmapMaxVelocity = { value: 1 }
+        shader.uniforms.uSimPosition = {
+          value: gpuSolver?.positionTexture ?? null,
+        }
+        shader.uniforms.uSimVelocity = {
+          value: gpuSolver?.velocityTexture ?? null,
+        }
+
+        if (gpuSolver) {
+          shader.vertexShader = `#define USE_GPU_SIMULATION\n${shader.vertexShader}`
+        }
 
-            shader.vertexShader = shader.vertexShader
-              .replace(
-                '#include <common>',
-                `#include <common>
+        shader.vertexShader = shader.vertexShader
+          .replace(
+            '#include <common>',
+            `#include <common>
 attribute vec3 aVelocity;
-varying vec3 vVelocity;`,
-              )
-              .replace(
-                '#include <begin_vertex>',
-                `#include <begin_vertex>
-vVelocity = aVelocity;`,
-              )
-
-            shader.fragmentShader = shader.fragmentShader
-              .replace(
-                '#include <common>',
-                `#include <common>
+attribute float aDissolve;
+varying vec3 vVelocity;
+varying float vDissolve;
+#ifdef USE_GPU_SIMULATION
+attribute vec2 aSimUv;
+uniform sampler2D uSimPosition;
+uniform sampler2D uSimVelocity;
+#endif`,
+          )
+          .replace(
+            '#include <begin_vertex>',
+            `#include <begin_vertex>
+#ifdef USE_GPU_SIMULATION
+transformed = texture2D(uSimPosition, aSimUv).xyz;
+vVelocity = texture2D(uSimVelocity, aSimUv).xyz;
+#else
+vVelocity = aVelocity;
+#endif
+vDissolve = aDissolve;
+// Solvers store units per second; the emissive response was tuned against
+// per-frame displacement at 60 Hz.
+vVelocity *= 1.0 / 60.0;`,
+          )
+
+        shader.fragmentShader = shader.fragmentShader
+          .replace(
+            '#include <common>',
+            `#include <common>
 uniform vec3 uEmissiveBaseColor;
 uniform float uEmissiveBoost;
 uniform float uEmissiveIntensity;
+uniform float uDissolve;
+uniform float uHeatmap;
+uniform float uHeatmapMaxVelocity;
 varying vec3 vVelocity;
+varying float vDissolve;
+
+// Blue through green to red.
+vec3 heatRamp(float t) {
+  return clamp(vec3(1.5) - abs(4.0 * t - vec3(3.0, 2.0, 1.0)), 0.0, 1.0);
+}
 
 vec3 tslHue(vec3 baseColor, vec3 adjustment) {
   vec3 k = vec3(0.57735, 0.57735, 0.57735);
   vec3 cosAngle = cos(adjustment);
   return (baseColor * cosAngle) +
-    (cross(k, baseColor) * sin(adjustment)) +
-    (k * (dot(k, baseColor) * (vec3(1.0) - cosAngle)));
+(cross(k, baseColor) * sin(adjustment)) +
+(k * (dot(k, baseColor) * (vec3(1.0) - cosAngle)));
 }`,
-                )
-                .replace(
-                  'vec3 totalEmissiveRadiance = emissive;',
-                  `vec3 hueRotated = vVelocity * (3.14159265 * 10.0);
+            )
+            .replace(
+              '#include <clipping_planes_fragment>',
+              `#include <clipping_planes_fragment>
+if (vDissolve < uDissolve) discard;`,
+            )
+            .replace(
+              'vec3 totalEmissiveRadiance = emissive;',
+              `vec3 hueRotated = vVelocity * (3.14159265 * 10.0);
 float emissionFactor = length(vVelocity) * 10.0;
 vec3 shiftedEmissive = tslHue(uEmissiveBaseColor, hueRotated) * emissionFactor * uEmissiveBoost * uEmissiveIntensity;
-vec3 totalEmissiveRadiance = shiftedEmissive;`,
-              )
-
-            shaderRef.current = shader
-          }}
-        />
-      </Text3D>
-    </group>
+// Glow along the edge that is about to dissolve.
+float dissolveEdge = step(0.001, uDissolve) * (1.0 - smoothstep(0.0, 0.05, vDissolve - uDissolve));
+vec3 totalEmissiveRadiance = shiftedEmissive + uEmissiveBaseColor * dissolveEdge * uEmissiveIntensity * 2.0;`,
+            )
+            .replace(
+              '#include <opaque_fragment>',
+              `#include <opaque_fragment>
+// Debug heatmap: unlit vertex speed in units per second.
+float heat = clamp(length(vVelocity) * 60.0 / uHeatmapMaxVelocity, 0.0, 1.0);
+gl_FragColor.rgb = mix(gl_FragColor.rgb, heatRamp(heat), uHeatmap);`,
+          )
+
+        shaderRef.current = shader
+      }}
+    />
+  )
+
+  return (
+    <mesh
+      key={`${meshKey}:${solver}`}
+      ref={meshRef}
+      geometry={ownedGeometry}
+      onPointerMove={handlePointerMove}
+      onPointerOut={handlePointerOut}
+      onPointerUp={handlePointerOut}
+      onClick={handleClick}
+    >
+      {material}
+    </mesh>
   )
 }
+
+type ElasticWordProps = TextShape &
+  SimulationProps & {
+    meshKey: string
+  }
+
+function ElasticWord({
+  text,
+  font,
+  size,
+  depth,
+  bevelEnabled,
+  bevelSize,
+  bevelThickness,
+  curveSegments,
+  tessellation,
+  paragraph,
+  path,
+  meshKey,
+  ...simulationProps
+}: ElasticWordProps) {
+  const loadedFont = useFont(font)
+  const geometry = useMemo(
+    () =>
+      createTextGeometry(loadedFont, text, {
+        size,
+        depth,
+        bevelEnabled,
+        bevelSize,
+        bevelThickness,
+        curveSegments,
+        tessellation,
+        paragraph,
+        path,
+      }),
+    [
+      bevelEnabled,
+      bevelSize,
+      bevelThickness,
+      curveSegments,
+      depth,
+      loadedFont,
+      paragraph,
+      path,
+      size,
+      tessellation,
+      text,
+    ],
+  )
+
+  useEffect(() => {
+    return () => {
+      geometry?.dispose()
+    }
+  }, [geometry])
+
+  if (!geometry) {
+    return null
+  }
+
+  return (
+    <ElasticMesh
+      key={`${meshKey}:${getSimulationKey(simulationProps)}`}
+      {...simulationProps}
+      meshKey={meshKey}
+      geometry={geometry}
+    />
+  )
+}
+
+type ElasticGlyphsProps = TextShape &
+  SimulationProps & {
+    meshKey: string
+    glyphVariation: GlyphVariationSettings
+  }
+
+function ElasticGlyphs({
+  text,
+  font,
+  size,
+  depth,
+  bevelEnabled,
+  bevelSize,
+  bevelThickness,
+  curveSegments,
+  tessellation,
+  paragraph,
+  path,
+  meshKey,
+  glyphVariation,
+  seed,
+  ...simulationProps
+}: ElasticGlyphsProps) {
+  const loadedFont = useFont(font)
+  const glyphs = useMemo(
+    () =>
+      createGlyphGeometries(loadedFont, text, {
+        size,
+        depth,
+        bevelEnabled,
+        bevelSize,
+        bevelThickness,
+        curveSegments,
+        tessellation,
+        paragraph,
+        path,
+      }),
+    [
+      bevelEnabled,
+      bevelSize,
+      bevelThickness,
+      curveSegments,
+      depth,
+      loadedFont,
+      paragraph,
+      path,
+      size,
+      tessellation,
+      text,
+    ],
+  )
+
+  useEffect(() => {
+    return () => {
+      for (const glyph of glyphs) {
+        glyph.geometry.dispose()
+      }
+    }
+  }, [glyphs])
+
+  return (
+    <>
+      {glyphs.map((glyph) => {
+        const seedUnit = hashToUnit(glyph.index * 3.17 + 0.5)
+        const stiffnessUnit = hashToUnit(glyph.index * 5.41 + 1.5)
+        const dampingUnit = hashToUnit(glyph.index * 7.93 + 2.5)
+
+        return (
+          <ElasticMesh
+            key={`${meshKey}:${getSimulationKey(simulationProps)}:${glyph.index}`}
+            {...simulationProps}
+            meshKey={meshKey}
+            geometry={glyph.geometry}
+            glyphIndex={glyph.index}
+            seed={seed + (seedUnit * 2 - 1) * glyphVariation.seedSpread}
+            variation={{
+              stiffnessScale:
+                1 + (stiffnessUnit * 2 - 1) * glyphVariation.stiffnessSpread,
+              dampingOffset:
+                (dampingUnit * 2 - 1) * glyphVariation.dampingSpread,
+              timeOffset: glyph.index * glyphVariation.stagger,
+            }}
+            transitionDelay={
+              glyph.index * Math.max(simulationProps.transition.stagger, 0)
+            }
+          />
+        )
+      })}
+    </>
+  )
+}
+
+export const ElasticText = forwardRef<ElasticTextHandle, ElasticTextProps>(
+  function ElasticText(
+    {
+      layoutMode,
+      glyphVariation,
+      meshKey,
+      text,
+      font,
+      size,
+      depth,
+      bevelEnabled,
+      bevelSize,
+      bevelThickness,
+      curveSegments,
+      tessellation,
+      paragraph,
+      path,
+      ...textSimulationProps
+    },
+    ref,
+  ) {
+    const [resetCount, setResetCount] = useState(0)
+    const impulsesRef = useRef<ActiveImpulse[]>([])
+    const externalEmittersRef = useRef(new Map<string, EmitterOptions>())
+    const impulseRandomRef = useRef<(() => number) | null>(null)
+    const transitionClocksRef = useRef(new Map<number, TransitionClock>())
+    const healRef = useRef({ progress: 1 })
+    const [pathRecorder] = useState(() => new PointerPathRecorder())
+    const [performanceRecorder] = useState(
+      () => new PointerPerformanceRecorder(),
+    )
+    const [performancePlayer] = useState(() => new PointerPerformancePlayer())
+    const [debugOverlays] = useState(() => new Set<SimulationDebugOverlay>())
+    const { performance: replayedPerformance, ...meshSimulationProps } =
+      textSimulationProps
+    const { paused, seed, shatter, transition } = meshSimulationProps
+    const defaultImpulseMode = textSimulationProps.distortion.characterMode
+
+    const textShape: TextShape = {
+      text,
+      font,
+      size,
+      depth,
+      bevelEnabled,
+      bevelSize,
+      bevelThickness,
+      curveSegments,
+      tessellation,
+      paragraph,
+      path,
+    }
+    const [layers, setLayers] = useState<TextLayer[]>(() => [
+      { id: 0, phase: 'idle', delay: 0, meshKey, shape: textShape },
+    ])
+    const [layerMeshKey, setLayerMeshKey] = useState(meshKey)
+
+    // Only a change of text transitions; any other shape change rebuilds the
+    // current layer in place.
+    if (meshKey !== layerMeshKey) {
+      setLayerMeshKey(meshKey)
+      setLayers((current) => {
+        const latest = current[current.length - 1]
+        const animate = transition.enabled && latest.shape.text !== text
+        const incoming: TextLayer = {
+          id: latest.id + 1,
+          phase: animate ? 'in' : 'idle',
+          delay: 0,
+          meshKey,
+          shape: textShape,
+        }
+
+        if (!animate) {
+          return [incoming]
+        }
+
+        incoming.delay =
+          getTransitionSpan(transition, latest.shape.text, layoutMode) *
+          (1 - clamp(transition.overlap, 0, 1))
+
+        return [
+          ...current.map(
+            (layer): TextLayer =>
+              layer.phase === 'out'
+                ? layer
+                : { ...layer, phase: 'out', delay: 0 },
+          ),
+          incoming,
+        ]
+      })
+    }
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        triggerImpulse: (options = {}) => {
+          const [x, y, z] = options.position ?? [0, 0, 0]
+          const scatter = options.scatter ?? 0
+          const random = (impulseRandomRef.current ??= createSeededRandom(seed))
+
+          pushImpulse(
+            impulsesRef.current,
+            createImpulse(
+              options,
+              defaultImpulseMode,
+              x + (random() * 2 - 1) * scatter,
+              y + (random() * 2 - 1) * scatter * 0.5,
+              z,
+            ),
+          )
+        },
+        setEmitter: (id, options) => {
+          if (options) {
+            externalEmittersRef.current.set(id, options)
+          } else {
+            externalEmittersRef.current.delete(id)
+          }
+        },
+        reset: () => {
+          impulsesRef.current.length = 0
+          impulseRandomRef.current = null
+          transitionClocksRef.current.clear()
+          performancePlayer.restart()
+          setLayers((current) => [
+            { ...current[current.length - 1], phase: 'idle', delay: 0 },
+          ])
+          setResetCount((current) => current + 1)
+        },
+        heal: (duration = 1.5) => {
+          gsap.fromTo(
+            healRef.current,
+            { progress: 0 },
+            {
+              progress: 1,
+              duration: Math.max(duration, 0.01),
+              ease: 'power2.inOut',
+              overwrite: true,
+            },
+          )
+        },
+        startPathRecording: () => {
+          pathRecorder.start()
+        },
+        stopPathRecording: () => pathRecorder.stop(),
+        startPerformanceRecording: () => {
+          performanceRecorder.start()
+        },
+        stopPerformanceRecording: () => performanceRecorder.stop(),
+        getDebugStats: () => combineSimulationStats(debugOverlays),
+      }),
+      [
+        debugOverlays,
+        defaultImpulseMode,
+        pathRecorder,
+        performancePlayer,
+        performanceRecorder,
+        seed,
+      ],
+    )
+
+    useEffect(() => {
+      performancePlayer.load(replayedPerformance)
+    }, [performancePlayer, replayedPerformance])
+
+    useEffect(() => {
+      impulseRandomRef.current = null
+    }, [seed])
+
+    useEffect(() => {
+      const heal = healRef.current
+
+      return () => {
+        gsap.killTweensOf(heal)
+      }
+    }, [])
+
+    useFrame((_, delta) => {
+      if (paused) {
+        return
+      }
+
+      pathRecorder.advance(delta)
+      performanceRecorder.advance(delta)
+      for (const click of performancePlayer.advance(delta)) {
+        pushImpulse(
+          impulsesRef.current,
+          createImpulse(click, click.mode, click.x, click.y, click.z),
+        )
+      }
+
+      // Meshes age the impulses as they step them.
+      const impulses = impulsesRef.current
+      for (let index = impulses.length - 1; index >= 0; index -= 1) {
+        if (impulses[index].age >= impulses[index].duration) {
+          impulses.splice(index, 1)
+        }
+      }
+
+      // Clocks restart whenever a layer changes phase.
+      const clocks = transitionClocksRef.current
+      for (const id of clocks.keys()) {
+        if (!layers.some((layer) => layer.id === id)) {
+          clocks.delete(id)
+        }
+      }
+
+      const finished = new Set<number>()
+      for (const layer of layers) {
+        if (layer.phase === 'idle') {
+          continue
+        }
+
+        const clock = clocks.get(layer.id)
+        if (!clock || clock.phase !== layer.phase) {
+          clocks.set(layer.id, { phase: layer.phase, elapsed: 0 })
+          continue
+        }
+
+        clock.elapsed += delta
+        if (
+          layer.phase === 'out' &&
+          clock.elapsed >=
+            getTransitionSpan(transition, layer.shape.text, layoutMode)
+        ) {
+          finished.add(layer.id)
+        }
+      }
+
+      if (finished.size > 0) {
+        setLayers((current) =>
+          current.filter((layer) => !finished.has(layer.id)),
+        )
+      }
+    })
+
+    return (
+      <group rotation={[-0.15, 0, 0]}>
+        {layers.map((layer) => {
+          const simulationProps = {
+            ...meshSimulationProps,
+            // Outgoing shatters break apart and stay broken until they fade.
+            shatter:
+              layer.phase === 'out' && transition.style === 'Shatter'
+                ? { ...shatter, enabled: true, reassemble: false }
+                : shatter,
+            impulsesRef,
+            externalEmittersRef,
+            healRef,
+            pathRecorder,
+            performanceRecorder,
+            performancePlayer,
+            debugOverlays,
+            layer: { id: layer.id, phase: layer.phase, delay: layer.delay },
+            transitionClocksRef,
+          }
+
+          return layoutMode === 'Glyphs' ? (
+            <ElasticGlyphs
+              key={layer.id}
+              {...layer.shape}
+              {...simulationProps}
+              meshKey={`${layer.meshKey}#${resetCount}`}
+              glyphVariation={glyphVariation}
+            />
+          ) : (
+            <ElasticWord
+              key={layer.id}
+              {...layer.shape}
+              {...simulationProps}
+              meshKey={`${layer.meshKey}#${resetCount}`}
+            />
+          )
+        })}
+      </group>
+    )
+  },
+)
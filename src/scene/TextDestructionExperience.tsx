@@ -1,4 +1,5 @@
 import { OrbitControls } from "@react-three/drei";
+import { useFrame } from "@react-three/fiber";
 import {
   Bloom,
   ChromaticAberration,
@@ -11,7 +12,7 @@ import {
   Scanline,
   Vignette,
 } from "@react-three/postprocessing";
-import { button, useControls } from "leva";
+import { button, levaStore, monitor, useControls } from "leva";
 import gsap from "gsap";
 import { BlendFunction, GlitchMode } from "postprocessing";
 import {
@@ -21,22 +22,80 @@ import {
   useRef,
   useState,
   type ReactElement,
+  type RefObject,
 } from "react";
 import { PerspectiveCamera, Quaternion, Vector2, Vector3 } from "three";
 import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
 
+import { curve } from "../components/CurveInput/curvePlugin";
 import { DEFAULT_FONT, DEFAULT_TEXT, FONT_OPTIONS } from "../data/fonts";
 import { useScreenshotExport } from "../hooks/useScreenshotExport";
 import {
   ElasticText,
+  type CapTessellationSettings,
   type DistortionAutomationMode,
   type DistortionAutomationSettings,
+  type DebugOverlaySettings,
   type DistortionCharacterMode,
   type DistortionSettings,
+  type ElasticTextHandle,
+  type GlyphVariationSettings,
+  type ImpulseOptions,
+  type NormalMode,
+  type NormalSettings,
+  type PlasticitySettings,
+  type SeamMode,
+  type SeamSettings,
+  type ShatterGranularity,
+  type ShatterSettings,
+  type SimulationSolver,
+  type SoftBodySettings,
+  type TextAlign,
+  type TextLayoutMode,
+  type TextParagraphSettings,
+  type TextPathSettings,
+  type TextPathShape,
+  type TextTransitionSettings,
+  type TextTransitionStyle,
 } from "./ElasticText";
+import { AudioAnalyzer, type AudioBand } from "./audio/AudioAnalyzer";
+import type { PointerPath } from "./automation/pointerPath";
+import {
+  parsePointerPerformance,
+  serializePointerPerformance,
+  type PointerPerformance,
+} from "./automation/pointerPerformance";
+import {
+  evaluateModulator,
+  modulateValue,
+  type LfoShape,
+  type ModulationContext,
+  type ModulationRange,
+  type ModulatorSettings,
+  type ModulatorSource,
+} from "./modulation/modulators";
 import { BrutalistCompositeFx } from "./effects/BrutalistCompositeFx";
 import { CinematicMotionBlur } from "./effects/CinematicMotionBlur";
 import { TemporalFeedbackTrail } from "./effects/TemporalFeedbackTrail";
+import {
+  CHARACTER_MODES,
+  isCharacterModeId,
+  type CharacterModeParams,
+} from "./simulation/characterModes";
+import {
+  DEFAULT_FALLOFF_CURVE,
+  FALLOFF_PROFILES,
+  isFalloffProfile,
+  MAX_FALLOFF_CURVE_POINTS,
+  type FalloffProfile,
+} from "./simulation/falloff";
+import {
+  findLyricCueIndex,
+  formatLyricTrack,
+  getLyricTrackLength,
+  parseLyricTrack,
+} from "./text/lyricTrack";
+import { isSvgTextPathUsable } from "./text/textPath";
 
 type TimelineSnapshot = {
   cameraPosition: Vector3;
@@ -46,8 +105,8 @@ type TimelineSnapshot = {
     noiseAmplitude: number;
     explodeAmplitude: number;
     rotationAmplitude: number;
-    spring: number;
-    friction: number;
+    stiffness: number;
+    damping: number;
     emissiveVelocityBoost: number;
   };
   postFx: {
@@ -78,6 +137,220 @@ function asTimelinePreset(value: string): TimelinePreset {
     : "Club Cuts";
 }
 
+type AudioSource = "Off" | "File" | "Microphone";
+
+const AUDIO_SOURCE_OPTIONS: Record<AudioSource, AudioSource> = {
+  Off: "Off",
+  File: "File",
+  Microphone: "Microphone",
+};
+
+// Distortion fields an audio band can scale.
+const AUDIO_TARGETS = [
+  "None",
+  "noiseAmplitude",
+  "noiseSpeed",
+  "radius",
+  "explodeAmplitude",
+  "rotationAmplitude",
+  "emissiveIntensity",
+  "characterStrength",
+] as const;
+
+type AudioTarget = (typeof AUDIO_TARGETS)[number];
+
+const AUDIO_TARGET_OPTIONS = Object.fromEntries(
+  AUDIO_TARGETS.map((target) => [target, target]),
+) as Record<AudioTarget, AudioTarget>;
+
+const AUDIO_BAND_OPTIONS: Record<AudioBand | "None", AudioBand | "None"> = {
+  None: "None",
+  Low: "Low",
+  Mid: "Mid",
+  High: "High",
+};
+
+function asAudioSource(value: string): AudioSource {
+  return value === "File" || value === "Microphone" ? value : "Off";
+}
+
+function asAudioTarget(value: string): AudioTarget {
+  return AUDIO_TARGETS.includes(value as AudioTarget)
+    ? (value as AudioTarget)
+    : "None";
+}
+
+function asAudioBand(value: string): AudioBand | "None" {
+  return value === "Low" || value === "Mid" || value === "High"
+    ? value
+    : "None";
+}
+
+const MODULATOR_SOURCE_OPTIONS: Record<ModulatorSource, ModulatorSource> = {
+  LFO: "LFO",
+  Envelope: "Envelope",
+  Audio: "Audio",
+};
+
+const LFO_SHAPE_OPTIONS: Record<LfoShape, LfoShape> = {
+  Sine: "Sine",
+  Square: "Square",
+  Saw: "Saw",
+  "Random Hold": "Random Hold",
+};
+
+const MODULATOR_BEAT_OPTIONS: Record<string, number> = {
+  "1/4": 0.25,
+  "1/2": 0.5,
+  "1": 1,
+  "2": 2,
+  "4": 4,
+  "8": 8,
+  "16": 16,
+};
+
+// Folders whose numeric controls modulators can target. Distortion and
+// automation ride the per-frame override refs; the others re-render.
+const MODULATION_FOLDERS = [
+  "Distortion",
+  "Distortion Automation",
+  "Post FX",
+  "Environment",
+] as const;
+
+type ModulationFolder = (typeof MODULATION_FOLDERS)[number];
+
+// Numeric controls that do not map onto a setting of the same name.
+const UNMODULATED_CONTROLS = new Set(["Distortion Automation.emitters"]);
+
+type ControlModulation = Partial<
+  Record<ModulationFolder, Record<string, number>>
+>;
+
+const MODULATOR_BAND_OPTIONS: Record<AudioBand, AudioBand> = {
+  Low: "Low",
+  Mid: "Mid",
+  High: "High",
+};
+
+function asModulatorSource(value: string): ModulatorSource {
+  return value === "Envelope" || value === "Audio" ? value : "LFO";
+}
+
+function asLfoShape(value: string): LfoShape {
+  if (value === "Square" || value === "Saw" || value === "Random Hold") {
+    return value;
+  }
+
+  return "Sine";
+}
+
+// `Folder.key` paths of every numeric control in the modulatable folders.
+function collectModulationTargets(
+  folders: Record<ModulationFolder, object>,
+): string[] {
+  const targets = ["None"];
+  for (const folder of MODULATION_FOLDERS) {
+    for (const [key, value] of Object.entries(folders[folder])) {
+      const path = `${folder}.${key}`;
+      if (typeof value === "number" && !UNMODULATED_CONTROLS.has(path)) {
+        targets.push(path);
+      }
+    }
+  }
+
+  return targets;
+}
+
+// The Leva slider bounds of a control; depth and offset scale with them.
+function getModulationRange(path: string): ModulationRange | null {
+  const settings = levaStore.getInput(path)?.settings as
+    | { min?: number; max?: number }
+    | undefined;
+  if (
+    settings?.min === undefined ||
+    settings.max === undefined ||
+    !Number.isFinite(settings.min) ||
+    !Number.isFinite(settings.max)
+  ) {
+    return null;
+  }
+
+  return { min: settings.min, max: settings.max };
+}
+
+// Runs every enabled modulator aimed at `folder` over `values` and returns
+// only the modulated keys. Modulators on the same control stack in order.
+function applyModulators(
+  folder: ModulationFolder,
+  values: object,
+  modulators: readonly ModulatorSettings[],
+  context: ModulationContext,
+): Record<string, number> {
+  const baseValues = values as Record<string, unknown>;
+  const modulated: Record<string, number> = {};
+
+  modulators.forEach((modulator, slot) => {
+    const prefix = `${folder}.`;
+    if (!modulator.enabled || !modulator.target.startsWith(prefix)) {
+      return;
+    }
+
+    const key = modulator.target.slice(prefix.length);
+    const base = modulated[key] ?? baseValues[key];
+    const range = getModulationRange(modulator.target);
+    if (typeof base !== "number" || !range) {
+      return;
+    }
+
+    modulated[key] = modulateValue(
+      base,
+      range,
+      modulator,
+      evaluateModulator(modulator, context, slot),
+    );
+  });
+
+  return modulated;
+}
+
+function applyControlModulation<T extends object>(
+  values: T,
+  modulation: Record<string, number> | undefined,
+): T {
+  return modulation ? { ...values, ...modulation } : values;
+}
+
+// Snaps modulated values to their controls' Leva steps, so a slow sweep only
+// re-renders when the value shown on the panel would change.
+function quantizeModulation(
+  folder: ModulationFolder,
+  values: Record<string, number>,
+): Record<string, number> {
+  const quantized: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const settings = levaStore.getInput(`${folder}.${key}`)?.settings as
+      | { step?: number }
+      | undefined;
+    const step = settings?.step;
+    quantized[key] =
+      step !== undefined && step > 0 ? Math.round(value / step) * step : value;
+  }
+
+  return quantized;
+}
+
+function isSameModulation(
+  a: Record<string, number>,
+  b: Record<string, number>,
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
 const DISTORTION_AUTOMATION_MODE_OPTIONS: Record<
   DistortionAutomationMode,
   DistortionAutomationMode
@@ -85,19 +358,130 @@ const DISTORTION_AUTOMATION_MODE_OPTIONS: Record<
   Off: "Off",
   Sweep: "Sweep",
   "BPM Buzz": "BPM Buzz",
+  Lissajous: "Lissajous",
+  "Random Walk": "Random Walk",
+  Orbit: "Orbit",
+  Recorded: "Recorded",
+};
+
+const DISTORTION_CHARACTER_MODE_OPTIONS = Object.fromEntries(
+  CHARACTER_MODES.map((mode) => [mode.label, mode.id]),
+) as Record<string, DistortionCharacterMode>;
+
+const FALLOFF_PROFILE_OPTIONS = Object.fromEntries(
+  FALLOFF_PROFILES.map((profile) => [profile, profile]),
+) as Record<FalloffProfile, FalloffProfile>;
+
+type CharacterParamControl = {
+  modeId: string;
+  param: string;
+};
+
+// Every registered mode's extra params, flattened into one Leva folder.
+const CHARACTER_PARAM_CONTROLS: Record<string, CharacterParamControl> = {};
+const CHARACTER_PARAM_SCHEMA: Record<
+  string,
+  { value: number; min: number; max: number; step: number; label: string }
+> = {};
+
+for (const mode of CHARACTER_MODES) {
+  for (const [param, definition] of Object.entries(mode.params)) {
+    const key = `${mode.id.replace(/[^A-Za-z0-9]/g, "")}_${param}`;
+    CHARACTER_PARAM_CONTROLS[key] = { modeId: mode.id, param };
+    CHARACTER_PARAM_SCHEMA[key] = {
+      value: definition.value,
+      min: definition.min,
+      max: definition.max,
+      step: definition.step,
+      label: `${mode.label} ${definition.label ?? param}`,
+    };
+  }
+}
+
+const SIMULATION_SOLVER_OPTIONS: Record<SimulationSolver, SimulationSolver> = {
+  CPU: "CPU",
+  Worker: "Worker",
+  GPU: "GPU",
+};
+
+const SEAM_MODE_OPTIONS: Record<SeamMode, SeamMode> = {
+  Welded: "Welded",
+  Tear: "Tear",
+};
+
+const NORMAL_MODE_OPTIONS: Record<NormalMode, NormalMode> = {
+  Static: "Static",
+  Smooth: "Smooth",
+  Faceted: "Faceted",
+};
+
+const TEXT_LAYOUT_MODE_OPTIONS: Record<TextLayoutMode, TextLayoutMode> = {
+  Word: "Word",
+  Glyphs: "Glyphs",
+};
+
+const TEXT_ALIGN_OPTIONS: Record<TextAlign, TextAlign> = {
+  Left: "Left",
+  Center: "Center",
+  Right: "Right",
+  Justify: "Justify",
+};
+
+const TEXT_PATH_SHAPE_OPTIONS: Record<TextPathShape, TextPathShape> = {
+  None: "None",
+  Arc: "Arc",
+  Circle: "Circle",
+  Sine: "Sine",
+  SVG: "SVG",
+};
+
+const SHATTER_GRANULARITY_OPTIONS: Record<
+  ShatterGranularity,
+  ShatterGranularity
+> = {
+  Shards: "Shards",
+  Glyphs: "Glyphs",
 };
 
-const DISTORTION_CHARACTER_MODE_OPTIONS: Record<
-  DistortionCharacterMode,
-  DistortionCharacterMode
+const TEXT_TRANSITION_STYLE_OPTIONS: Record<
+  TextTransitionStyle,
+  TextTransitionStyle
 > = {
-  Organic: "Organic",
-  Shear: "Shear",
-  Rip: "Rip",
-  Crunch: "Crunch",
-  Melt: "Melt",
+  Collapse: "Collapse",
+  Shatter: "Shatter",
+  Dissolve: "Dissolve",
+};
+
+const TEXT_TRANSITION_EASE_OPTIONS = [
+  "power2.inOut",
+  "power3.in",
+  "power3.out",
+  "expo.inOut",
+  "sine.inOut",
+  "back.in",
+  "elastic.out",
+  "none",
+];
+
+type SequencerSource = "Clock" | "Timeline" | "BPM";
+
+const SEQUENCER_SOURCE_OPTIONS: Record<SequencerSource, SequencerSource> = {
+  Clock: "Clock",
+  Timeline: "Timeline",
+  BPM: "BPM",
 };
 
+// One cue per line: `[time] text`, in seconds (`Clock`, `Timeline`) or beats
+// (`BPM`). Untimed lines follow the previous cue by one unit.
+const DEFAULT_LYRIC_TRACK = [
+  "[0] TYPE",
+  "[2] COLLAPSE",
+  "[4] BREAK",
+  "[6] REBUILD",
+].join("\n");
+
+const DEFAULT_TEXT_SVG_PATH = "M 0 60 C 40 0 120 0 160 60 S 280 120 320 60";
+
 type GlitchModeControl = "Sporadic" | "Constant Mild" | "Constant Wild";
 
 const GLITCH_MODE_OPTIONS: Record<GlitchModeControl, GlitchModeControl> = {
@@ -133,7 +517,15 @@ const FOG_MODE_OPTIONS: Record<FogMode, FogMode> = {
 };
 
 function asDistortionAutomationMode(value: string): DistortionAutomationMode {
-  if (value === "Sweep" || value === "BPM Buzz" || value === "Off") {
+  if (
+    value === "Sweep" ||
+    value === "BPM Buzz" ||
+    value === "Lissajous" ||
+    value === "Random Walk" ||
+    value === "Orbit" ||
+    value === "Recorded" ||
+    value === "Off"
+  ) {
     return value;
   }
 
@@ -141,17 +533,90 @@ function asDistortionAutomationMode(value: string): DistortionAutomationMode {
 }
 
 function asDistortionCharacterMode(value: string): DistortionCharacterMode {
+  if (isCharacterModeId(value)) {
+    return value;
+  }
+
+  return "Organic";
+}
+
+function asFalloffProfile(value: string): FalloffProfile {
+  if (isFalloffProfile(value)) {
+    return value;
+  }
+
+  return "Smoothstep";
+}
+
+function asSimulationSolver(value: string): SimulationSolver {
+  if (value === "Worker" || value === "GPU") {
+    return value;
+  }
+
+  return "CPU";
+}
+
+function asSeamMode(value: string): SeamMode {
+  if (value === "Tear") {
+    return value;
+  }
+
+  return "Welded";
+}
+
+function asNormalMode(value: string): NormalMode {
+  if (value === "Smooth" || value === "Faceted") {
+    return value;
+  }
+
+  return "Static";
+}
+
+function asTextLayoutMode(value: string): TextLayoutMode {
+  return value === "Glyphs" ? "Glyphs" : "Word";
+}
+
+function asTextAlign(value: string): TextAlign {
+  if (value === "Left" || value === "Right" || value === "Justify") {
+    return value;
+  }
+
+  return "Center";
+}
+
+function asTextPathShape(value: string): TextPathShape {
   if (
-    value === "Organic" ||
-    value === "Shear" ||
-    value === "Rip" ||
-    value === "Crunch" ||
-    value === "Melt"
+    value === "Arc" ||
+    value === "Circle" ||
+    value === "Sine" ||
+    value === "SVG"
   ) {
     return value;
   }
 
-  return "Organic";
+  return "None";
+}
+
+function asSequencerSource(value: string): SequencerSource {
+  return value === "Timeline" || value === "BPM" ? value : "Clock";
+}
+
+function asShatterGranularity(value: string): ShatterGranularity {
+  return value === "Glyphs" ? value : "Shards";
+}
+
+function asTextTransitionStyle(value: string): TextTransitionStyle {
+  return value === "Shatter" || value === "Dissolve" ? value : "Collapse";
+}
+
+// Keeps line breaks but collapses runs of spaces and tabs within each line.
+function normalizeTextContent(value: string): string {
+  return value
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .join("\n")
+    .trim();
 }
 
 function asGlitchMode(value: string): GlitchMode {
@@ -179,6 +644,35 @@ type ExportCaptureState = {
   disableFog: boolean;
 };
 
+function pickFile(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("cancel", () => resolve(null));
+    input.addEventListener("change", () => {
+      resolve(input.files?.[0] ?? null);
+    });
+    input.click();
+  });
+}
+
+// Resolves to null when the picker is cancelled and rejects when the file
+// can't be read.
+async function readTextFile(accept: string): Promise<string | null> {
+  const file = await pickFile(accept);
+  return file ? file.text() : null;
+}
+
+function downloadTextFile(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 function waitForAnimationFrame(): Promise<void> {
   return new Promise((resolve) => {
     requestAnimationFrame(() => resolve());
@@ -795,80 +1289,644 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-export function TextDestructionExperience() {
-  const [paused, setPaused] = useState(false);
-  const [seed, setSeed] = useState(() => Math.random() * 1000);
-  const [manualRenderedText, setManualRenderedText] = useState(DEFAULT_TEXT);
-  const [timelinePlaying, setTimelinePlaying] = useState(false);
-  const [timelineEnabled, setTimelineEnabled] = useState(false);
-  const [exportCaptureState, setExportCaptureState] =
-    useState<ExportCaptureState>({
-      transparentBackground: false,
-      disableFog: false,
-    });
+// One modulator slot, nested under the `Modulation` folder. The target list is
+// read once, when the slot is created.
+function useModulatorControls(
+  index: number,
+  targets: readonly string[],
+): ModulatorSettings {
+  const [controls] = useControls(
+    `Modulation.Modulator ${index}`,
+    () => ({
+      enabled: false,
+      target: { value: "None", options: [...targets] },
+      source: { value: "LFO", options: MODULATOR_SOURCE_OPTIONS },
+      shape: { value: "Sine", options: LFO_SHAPE_OPTIONS },
+      rate: { value: 0.5, min: 0.01, max: 20, step: 0.01 },
+      tempoSync: false,
+      beats: { value: 1, options: MODULATOR_BEAT_OPTIONS },
+      phase: { value: 0, min: 0, max: 1, step: 0.01 },
+      attack: { value: 0.02, min: 0, max: 2, step: 0.01 },
+      release: { value: 0.4, min: 0.01, max: 4, step: 0.01 },
+      band: { value: "Low", options: MODULATOR_BAND_OPTIONS },
+      depth: { value: 0.25, min: -1, max: 1, step: 0.01 },
+      offset: { value: 0, min: -1, max: 1, step: 0.01 },
+    }),
+    [],
+  );
 
-  const draftTextRef = useRef(DEFAULT_TEXT);
-  const exportScaleRef = useRef(2);
-  const exportTransparentRef = useRef(false);
-  const exportDisableFogRef = useRef(true);
-  const exportSequenceDurationRef = useRef(4);
-  const exportSequenceFpsRef = useRef(24);
-  const exportSequencePaddingRef = useRef(4);
-  const exportSequencePrefixRef = useRef("type-collapse-seq");
-  const orbitControlsRef = useRef<OrbitControlsImpl>(null);
-  const timelineRef = useRef<gsap.core.Timeline | null>(null);
-  const timelineSnapshotRef = useRef<TimelineSnapshot | null>(null);
-  const timelineAutoPlayRef = useRef(true);
-  const timelineDistortionOverrideRef =
-    useRef<Partial<DistortionSettings> | null>(null);
-  const { exportScreenshot, exportSequence } = useScreenshotExport();
+  return useMemo(() => {
+    const band = asAudioBand(String(controls.band));
+    return {
+      enabled: controls.enabled,
+      target: String(controls.target),
+      source: asModulatorSource(String(controls.source)),
+      shape: asLfoShape(String(controls.shape)),
+      rate: controls.rate,
+      tempoSync: controls.tempoSync,
+      beats: Number(controls.beats),
+      phase: controls.phase,
+      attack: controls.attack,
+      release: controls.release,
+      band: band === "None" ? "Low" : band,
+      depth: controls.depth,
+      offset: controls.offset,
+    };
+  }, [controls]);
+}
 
-  const togglePause = useCallback(() => {
-    setPaused((current) => !current);
-  }, []);
+// `controls` with the modulated values the experience's frame loop last
+// wrote for `folder`. Only the caller re-renders when they change; its frame
+// callback runs after the loop's, which sits at priority -1.
+function useModulatedControls<T extends object>(
+  folder: ModulationFolder,
+  controls: T,
+  modulationRef: RefObject<ControlModulation>,
+): T {
+  const [modulation, setModulation] = useState<Record<string, number>>({});
+  const modulationStateRef = useRef(modulation);
+
+  useFrame(() => {
+    const next = modulationRef.current[folder] ?? {};
+    if (!isSameModulation(next, modulationStateRef.current)) {
+      modulationStateRef.current = next;
+      setModulation(next);
+    }
+  });
 
-  const randomizeSeed = useCallback(() => {
-    setSeed(Math.random() * 1000);
-  }, []);
+  return useMemo(
+    () => applyControlModulation(controls, modulation),
+    [controls, modulation],
+  );
+}
 
-  const regenerateText = useCallback(() => {
-    const nextText = draftTextRef.current.trim().replace(/\s+/g, " ");
-    setManualRenderedText(nextText.length > 0 ? nextText : DEFAULT_TEXT);
-  }, []);
+type EnvironmentControlValues = {
+  backgroundColor: string;
+  fogEnabled: boolean;
+  fogMode: string;
+  fogColor: string;
+  fogNear: number;
+  fogFar: number;
+  fogDensity: number;
+  groundEnabled: boolean;
+  groundColor: string;
+  groundY: number;
+  groundSize: number;
+  groundRoughness: number;
+  groundMetalness: number;
+};
 
-  const beginExportCapture = useCallback(
-    async (transparentBackground: boolean) => {
-      if (!transparentBackground) {
-        return;
-      }
+type EnvironmentSceneProps = {
+  controls: EnvironmentControlValues;
+  modulationRef: RefObject<ControlModulation>;
+  transparentBackground: boolean;
+  disableFog: boolean;
+};
 
-      setExportCaptureState({
-        transparentBackground: true,
-        disableFog: exportDisableFogRef.current,
-      });
-      await waitForAnimationFrame();
-    },
-    [],
+function EnvironmentScene({
+  controls: baseControls,
+  modulationRef,
+  transparentBackground,
+  disableFog,
+}: EnvironmentSceneProps) {
+  const controls = useModulatedControls(
+    "Environment",
+    baseControls,
+    modulationRef,
   );
+  const fogMode = asFogMode(String(controls.fogMode));
+  const fogEnabledForRender =
+    controls.fogEnabled && !(transparentBackground && disableFog);
 
-  const endExportCapture = useCallback(
-    async (transparentBackground: boolean) => {
-      if (!transparentBackground) {
-        return;
-      }
+  return (
+    <>
+      {!transparentBackground && (
+        <color attach="background" args={[controls.backgroundColor]} />
+      )}
 
-      setExportCaptureState({
-        transparentBackground: false,
-        disableFog: false,
-      });
-      await waitForAnimationFrame();
-    },
-    [],
+      {fogEnabledForRender ? (
+        fogMode === "Exp2" ? (
+          <fogExp2
+            attach="fog"
+            args={[controls.fogColor, controls.fogDensity]}
+          />
+        ) : (
+          <fog
+            attach="fog"
+            args={[controls.fogColor, controls.fogNear, controls.fogFar]}
+          />
+        )
+      ) : (
+        <fog attach="fog" args={[controls.backgroundColor, 10000, 10001]} />
+      )}
+
+      {controls.groundEnabled && (
+        <mesh
+          position={[0, controls.groundY, 0]}
+          rotation={[-Math.PI / 2, 0, 0]}
+        >
+          <planeGeometry args={[controls.groundSize, controls.groundSize]} />
+          <meshStandardMaterial
+            color={controls.groundColor}
+            roughness={controls.groundRoughness}
+            metalness={controls.groundMetalness}
+          />
+        </mesh>
+      )}
+    </>
   );
+}
 
-  useControls(
-    "Playback",
-    () => ({
+type PostFxControlValues = {
+  enabled: boolean;
+  bloomEnabled: boolean;
+  bloomIntensity: number;
+  bloomThreshold: number;
+  bloomSmoothing: number;
+  dofEnabled: boolean;
+  dofAutoFocusText: boolean;
+  dofFocusDistance: number;
+  dofFocusRange: number;
+  dofBokehScale: number;
+  dofResolutionScale: number;
+  motionBlurEnabled: boolean;
+  motionBlurStrength: number;
+  motionBlurDirectionX: number;
+  motionBlurDirectionY: number;
+  motionBlurSamples: number;
+  motionBlurOpacity: number;
+  trailEnabled: boolean;
+  trailStrength: number;
+  trailDispersion: number;
+  trailSamples: number;
+  trailOpacity: number;
+  brutalistCompositeEnabled: boolean;
+  brutalistPosterizeSteps: number;
+  brutalistEdgeStrength: number;
+  brutalistDitherStrength: number;
+  brutalistGrain: number;
+  brutalistWarp: number;
+  brutalistOpacity: number;
+  pixelationEnabled: boolean;
+  pixelationGranularity: number;
+  scanlineEnabled: boolean;
+  scanlineDensity: number;
+  scanlineOpacity: number;
+  colorDepthEnabled: boolean;
+  colorDepthBits: number;
+  glitchEnabled: boolean;
+  glitchMode: string;
+  glitchDelayMin: number;
+  glitchDelayMax: number;
+  glitchDurationMin: number;
+  glitchDurationMax: number;
+  glitchStrengthX: number;
+  glitchStrengthY: number;
+  glitchChromaticX: number;
+  glitchChromaticY: number;
+  glitchRatio: number;
+  chromaticEnabled: boolean;
+  chromaticOffsetX: number;
+  chromaticOffsetY: number;
+  noiseEnabled: boolean;
+  noiseOpacity: number;
+  vignetteEnabled: boolean;
+  vignetteOffset: number;
+  vignetteDarkness: number;
+};
+
+type PostFxEffectsProps = {
+  controls: PostFxControlValues;
+  modulationRef: RefObject<ControlModulation>;
+};
+
+function PostFxEffects({
+  controls: baseControls,
+  modulationRef,
+}: PostFxEffectsProps) {
+  const controls = useModulatedControls("Post FX", baseControls, modulationRef);
+
+  const chromaticOffset = useMemo(
+    () => new Vector2(controls.chromaticOffsetX, controls.chromaticOffsetY),
+    [controls.chromaticOffsetX, controls.chromaticOffsetY],
+  );
+
+  const postFxChildren = useMemo(() => {
+    const children: ReactElement[] = [];
+
+    const glitchDelayMin = Math.min(
+      controls.glitchDelayMin,
+      controls.glitchDelayMax,
+    );
+    const glitchDelayMax = Math.max(
+      controls.glitchDelayMin,
+      controls.glitchDelayMax,
+    );
+    const glitchDurationMin = Math.min(
+      controls.glitchDurationMin,
+      controls.glitchDurationMax,
+    );
+    const glitchDurationMax = Math.max(
+      controls.glitchDurationMin,
+      controls.glitchDurationMax,
+    );
+    const glitchDelay = new Vector2(glitchDelayMin, glitchDelayMax);
+    const glitchDuration = new Vector2(glitchDurationMin, glitchDurationMax);
+    const glitchStrength = new Vector2(
+      controls.glitchStrengthX,
+      controls.glitchStrengthY,
+    );
+    const glitchChromaticOffset = new Vector2(
+      controls.glitchChromaticX,
+      controls.glitchChromaticY,
+    );
+
+    if (controls.bloomEnabled) {
+      children.push(
+        <Bloom
+          key="bloom"
+          intensity={controls.bloomIntensity}
+          luminanceThreshold={controls.bloomThreshold}
+          luminanceSmoothing={controls.bloomSmoothing}
+          mipmapBlur
+        />,
+      );
+    }
+
+    if (controls.dofEnabled) {
+      children.push(
+        <DepthOfField
+          key="dof"
+          target={controls.dofAutoFocusText ? [0, 0, 0] : undefined}
+          focusDistance={controls.dofFocusDistance}
+          focusRange={controls.dofFocusRange}
+          bokehScale={controls.dofBokehScale}
+          resolutionScale={controls.dofResolutionScale}
+        />,
+      );
+    }
+
+    if (controls.motionBlurEnabled) {
+      children.push(
+        <CinematicMotionBlur
+          key="motion-blur"
+          strength={controls.motionBlurStrength}
+          direction={[
+            controls.motionBlurDirectionX,
+            controls.motionBlurDirectionY,
+          ]}
+          samples={controls.motionBlurSamples}
+          opacity={controls.motionBlurOpacity}
+        />,
+      );
+    }
+
+    if (controls.trailEnabled) {
+      children.push(
+        <TemporalFeedbackTrail
+          key="trail"
+          strength={controls.trailStrength}
+          dispersion={controls.trailDispersion}
+          samples={controls.trailSamples}
+          opacity={controls.trailOpacity}
+        />,
+      );
+    }
+
+    if (controls.chromaticEnabled) {
+      children.push(
+        <ChromaticAberration key="chromatic" offset={chromaticOffset} />,
+      );
+    }
+
+    if (controls.glitchEnabled) {
+      children.push(
+        <Glitch
+          key="glitch"
+          mode={asGlitchMode(String(controls.glitchMode))}
+          delay={glitchDelay}
+          duration={glitchDuration}
+          strength={glitchStrength}
+          chromaticAberrationOffset={glitchChromaticOffset}
+          ratio={controls.glitchRatio}
+        />,
+      );
+    }
+
+    if (controls.pixelationEnabled) {
+      children.push(
+        <Pixelation
+          key="pixelation"
+          granularity={controls.pixelationGranularity}
+        />,
+      );
+    }
+
+    if (controls.colorDepthEnabled) {
+      children.push(
+        <ColorDepth
+          key="color-depth"
+          bits={Math.round(controls.colorDepthBits)}
+        />,
+      );
+    }
+
+    if (controls.scanlineEnabled) {
+      children.push(
+        <Scanline
+          key="scanline"
+          density={controls.scanlineDensity}
+          opacity={controls.scanlineOpacity}
+        />,
+      );
+    }
+
+    if (controls.noiseEnabled) {
+      children.push(
+        <Noise
+          key="noise"
+          blendFunction={BlendFunction.OVERLAY}
+          opacity={controls.noiseOpacity}
+        />,
+      );
+    }
+
+    if (controls.brutalistCompositeEnabled) {
+      children.push(
+        <BrutalistCompositeFx
+          key="brutalist-composite"
+          posterizeSteps={controls.brutalistPosterizeSteps}
+          edgeStrength={controls.brutalistEdgeStrength}
+          ditherStrength={controls.brutalistDitherStrength}
+          grain={controls.brutalistGrain}
+          warp={controls.brutalistWarp}
+          opacity={controls.brutalistOpacity}
+        />,
+      );
+    }
+
+    if (controls.vignetteEnabled) {
+      children.push(
+        <Vignette
+          key="vignette"
+          eskil={false}
+          offset={controls.vignetteOffset}
+          darkness={controls.vignetteDarkness}
+        />,
+      );
+    }
+
+    return children;
+  }, [chromaticOffset, controls]);
+
+  if (!controls.enabled) {
+    return null;
+  }
+
+  return (
+    <EffectComposer enableNormalPass={false} multisampling={0}>
+      {postFxChildren}
+    </EffectComposer>
+  );
+}
+
+// Rounded to the Leva step so a seed read off the panel reproduces exactly.
+function randomSeed(): number {
+  return Math.round(Math.random() * 100000) / 100;
+}
+
+export function TextDestructionExperience() {
+  const [paused, setPaused] = useState(false);
+  const [seed, setSeed] = useState(() => randomSeed());
+  // Set by the Shatter drop action and cleared by rebuild.
+  const [dropped, setDropped] = useState(false);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [recordedPath, setRecordedPath] = useState<PointerPath | null>(null);
+  const [pointerPerformance, setPointerPerformance] =
+    useState<PointerPerformance | null>(null);
+  const [manualRenderedText, setManualRenderedText] = useState(DEFAULT_TEXT);
+  const [timelinePlaying, setTimelinePlaying] = useState(false);
+  const [timelineEnabled, setTimelineEnabled] = useState(false);
+  const [exportCaptureState, setExportCaptureState] =
+    useState<ExportCaptureState>({
+      transparentBackground: false,
+      disableFog: false,
+    });
+
+  const draftTextRef = useRef(DEFAULT_TEXT);
+  const exportScaleRef = useRef(2);
+  const exportTransparentRef = useRef(false);
+  const exportDisableFogRef = useRef(true);
+  const exportSequenceDurationRef = useRef(4);
+  const exportSequenceFpsRef = useRef(24);
+  const exportSequencePaddingRef = useRef(4);
+  const exportSequencePrefixRef = useRef("type-collapse-seq");
+  const orbitControlsRef = useRef<OrbitControlsImpl>(null);
+  const elasticTextRef = useRef<ElasticTextHandle>(null);
+  const impulseOptionsRef = useRef<ImpulseOptions>({});
+  const pointerPerformanceRef = useRef<PointerPerformance | null>(null);
+  const healDurationRef = useRef(1.5);
+  const exportRestartSimulationRef = useRef(true);
+  const setPlaybackControlsRef = useRef<
+    ((values: { seed: number }) => void) | null
+  >(null);
+  const setSequencerControlsRef = useRef<
+    ((values: { track: string }) => void) | null
+  >(null);
+  const setShatterControlsRef = useRef<
+    ((values: { enabled: boolean }) => void) | null
+  >(null);
+  const setAutomationModeRef = useRef<
+    ((values: { mode: DistortionAutomationMode }) => void) | null
+  >(null);
+  const setAudioControlsRef = useRef<
+    ((values: { source: AudioSource }) => void) | null
+  >(null);
+  const audioAnalyzerRef = useRef<AudioAnalyzer | null>(null);
+  // The solver stepping the text, read by the Simulation monitor.
+  const solverStatusRef = useRef("CPU");
+  // Whether the SVG text path parsed, read by the Text Path monitor.
+  const svgPathStatusRef = useRef("Unused");
+  // Outcome of the last lyric import, read by the Sequencer monitor.
+  const lyricImportStatusRef = useRef("None");
+  // State of the hover path recorder, read by the automation monitor.
+  const pathRecordingStatusRef = useRef("None");
+  // Last record, save or load of a pointer performance, read by its monitor.
+  const performanceStatusRef = useRef("None");
+  // Latest low band level and tempo, read by the Audio monitors.
+  const audioLowRef = useRef(0);
+  // Formatted here, since Leva shows a number in two-digit precision.
+  const audioTempoRef = useRef("—");
+  const audioStatusRef = useRef("Off");
+  // Seconds on the modulation clock and when envelopes were last triggered.
+  const modulationTimeRef = useRef(0);
+  const envelopeTriggerTimeRef = useRef(-Infinity);
+  // Modulated Post FX and Environment values laid over their Leva values,
+  // read each frame by the scene parts they drive.
+  const controlModulationRef = useRef<ControlModulation>({});
+  const groundYOverrideRef = useRef<number | null>(null);
+  // Seconds the sequencer clock has run, and the cue it last showed (-2
+  // forces the next frame to apply its cue).
+  const sequencerTimeRef = useRef(0);
+  const sequencerCueIndexRef = useRef(-2);
+  const timelineRef = useRef<gsap.core.Timeline | null>(null);
+  const timelineSnapshotRef = useRef<TimelineSnapshot | null>(null);
+  const timelineAutoPlayRef = useRef(true);
+  const timelineDistortionOverrideRef =
+    useRef<Partial<DistortionSettings> | null>(null);
+  // Timeline override plus the audio modulation, rebuilt every frame.
+  const distortionOverrideRef = useRef<Partial<DistortionSettings> | null>(
+    null,
+  );
+  const automationOverrideRef =
+    useRef<Partial<DistortionAutomationSettings> | null>(null);
+  const { exportScreenshot, exportSequence } = useScreenshotExport();
+
+  const togglePause = useCallback(() => {
+    setPaused((current) => !current);
+  }, []);
+
+  const reportSolverStarted = useCallback(
+    (requested: SimulationSolver, active: SimulationSolver) => {
+      solverStatusRef.current =
+        requested === active
+          ? active
+          : `${requested} unavailable, using ${active}`;
+    },
+    [],
+  );
+
+  const randomizeSeed = useCallback(() => {
+    setPlaybackControlsRef.current?.({ seed: randomSeed() });
+  }, []);
+
+  const triggerImpulse = useCallback(() => {
+    elasticTextRef.current?.triggerImpulse(impulseOptionsRef.current);
+    envelopeTriggerTimeRef.current = modulationTimeRef.current;
+  }, []);
+
+  const restartSequencer = useCallback(() => {
+    sequencerTimeRef.current = 0;
+    sequencerCueIndexRef.current = -2;
+  }, []);
+
+  const loadAudioFile = useCallback(async () => {
+    const file = await pickFile("audio/*");
+    if (!file) {
+      return;
+    }
+
+    setAudioFile(file);
+    setAudioControlsRef.current?.({ source: "File" });
+  }, []);
+
+  const importLyricTrack = useCallback(async () => {
+    let source: string | null;
+    try {
+      source = await readTextFile(".txt,.lrc,.srt,text/plain");
+    } catch {
+      lyricImportStatusRef.current = "Unable to read the file";
+      return;
+    }
+    if (source === null) {
+      return;
+    }
+
+    const cues = parseLyricTrack(source);
+    if (cues.length === 0) {
+      lyricImportStatusRef.current = "No timed lines in the file";
+      return;
+    }
+
+    lyricImportStatusRef.current = `Imported ${cues.length} lines`;
+    setSequencerControlsRef.current?.({ track: formatLyricTrack(cues) });
+    restartSequencer();
+  }, [restartSequencer]);
+
+  const savePointerPerformance = useCallback(() => {
+    const take = pointerPerformanceRef.current;
+    if (!take) {
+      performanceStatusRef.current = "Nothing to save";
+      return;
+    }
+
+    downloadTextFile(
+      serializePointerPerformance(take),
+      "type-collapse-performance.json",
+      "application/json",
+    );
+    performanceStatusRef.current = "Saved";
+  }, []);
+
+  const loadPointerPerformance = useCallback(async () => {
+    let source: string | null;
+    try {
+      source = await readTextFile(".json,application/json");
+    } catch {
+      performanceStatusRef.current = "Unable to read the file";
+      return;
+    }
+    if (source === null) {
+      return;
+    }
+
+    const take = parsePointerPerformance(source);
+    if (!take) {
+      performanceStatusRef.current = "Not a pointer performance";
+      return;
+    }
+
+    performanceStatusRef.current = `Loaded ${take.duration.toFixed(1)}s`;
+    setPointerPerformance(take);
+  }, []);
+
+  const regenerateText = useCallback(() => {
+    const nextText = normalizeTextContent(draftTextRef.current);
+    setManualRenderedText(nextText.length > 0 ? nextText : DEFAULT_TEXT);
+  }, []);
+
+  const beginExportCapture = useCallback(
+    async (transparentBackground: boolean) => {
+      if (!transparentBackground) {
+        return;
+      }
+
+      setExportCaptureState({
+        transparentBackground: true,
+        disableFog: exportDisableFogRef.current,
+      });
+      await waitForAnimationFrame();
+    },
+    [],
+  );
+
+  const endExportCapture = useCallback(
+    async (transparentBackground: boolean) => {
+      if (!transparentBackground) {
+        return;
+      }
+
+      setExportCaptureState({
+        transparentBackground: false,
+        disableFog: false,
+      });
+      await waitForAnimationFrame();
+    },
+    [],
+  );
+
+  const [, setPlaybackControls] = useControls(
+    "Playback",
+    () => ({
+      seed: {
+        value: seed,
+        min: 0,
+        max: 1000,
+        step: 0.01,
+        onChange: (value: number) => {
+          setSeed(value);
+        },
+      },
       pauseOrResume: button(() => togglePause()),
       randomizeSeed: button(() => randomizeSeed()),
     }),
@@ -878,20 +1936,43 @@ export function TextDestructionExperience() {
   const [textControls] = useControls(
     "Text",
     () => ({
-      content: { value: DEFAULT_TEXT },
+      content: { value: DEFAULT_TEXT, rows: 3 },
       autoRegen: true,
       font: { value: DEFAULT_FONT, options: FONT_OPTIONS },
+      layout: { value: "Word", options: TEXT_LAYOUT_MODE_OPTIONS },
+      align: { value: "Center", options: TEXT_ALIGN_OPTIONS },
+      tracking: { value: 0, min: -0.2, max: 0.6, step: 0.005 },
+      leading: { value: 1, min: 0.5, max: 2.5, step: 0.01 },
+      wrapWidth: { value: 0, min: 0, max: 30, step: 0.1 },
       size: { value: 1.52, min: 0.3, max: 3.5, step: 0.01 },
       depth: { value: 0.32, min: 0.03, max: 1.2, step: 0.01 },
       bevelEnabled: true,
       bevelSize: { value: 0.02, min: 0, max: 0.08, step: 0.001 },
       bevelThickness: { value: 0.03, min: 0, max: 0.2, step: 0.001 },
       curveSegments: { value: 20, min: 4, max: 36, step: 1 },
+      capSubdivision: false,
+      capEdgeLength: { value: 0.1, min: 0.02, max: 0.5, step: 0.005 },
+      capVertexBudget: { value: 300000, min: 20000, max: 1000000, step: 10000 },
       regen: button(() => regenerateText()),
     }),
     [regenerateText],
   );
 
+  const [textPathControls] = useControls(
+    "Text Path",
+    () => ({
+      shape: { value: "None", options: TEXT_PATH_SHAPE_OPTIONS },
+      radius: { value: 4, min: 0.5, max: 20, step: 0.01 },
+      amplitude: { value: 0.6, min: 0, max: 4, step: 0.01 },
+      wavelength: { value: 6, min: 0.5, max: 30, step: 0.01 },
+      svgPath: { value: DEFAULT_TEXT_SVG_PATH, rows: 2 },
+      svgScale: { value: 0.04, min: 0.001, max: 0.5, step: 0.001 },
+      offset: { value: 0, min: -0.5, max: 0.5, step: 0.001 },
+      svgStatus: monitor(svgPathStatusRef, { graph: false, interval: 250 }),
+    }),
+    [],
+  );
+
   const [distortionControls, setDistortionControls] = useControls(
     "Distortion",
     () => ({
@@ -900,6 +1981,13 @@ export function TextDestructionExperience() {
       noiseSpeed: { value: 1.0, min: 0, max: 5, step: 0.01 },
       followRate: { value: 18, min: 1, max: 50, step: 0.1 },
       radius: { value: 0.5, min: 0.05, max: 3, step: 0.01 },
+      falloff: { value: "Smoothstep", options: FALLOFF_PROFILE_OPTIONS },
+      innerRadius: { value: 0, min: 0, max: 0.95, step: 0.01 },
+      falloffCurve: curve({
+        value: DEFAULT_FALLOFF_CURVE,
+        maxPoints: MAX_FALLOFF_CURVE_POINTS,
+        render: (get) => get("Distortion.falloff") === "Curve",
+      }),
       explodeAmplitude: { value: 1.5, min: 0, max: 5, step: 0.01 },
       rotationAmplitude: { value: 1.0, min: 0, max: 5, step: 0.01 },
       characterMode: {
@@ -907,8 +1995,8 @@ export function TextDestructionExperience() {
         options: DISTORTION_CHARACTER_MODE_OPTIONS,
       },
       characterStrength: { value: 1.0, min: 0, max: 2.5, step: 0.01 },
-      spring: { value: 0.05, min: 0.001, max: 0.2, step: 0.001 },
-      friction: { value: 0.9, min: 0.5, max: 0.999, step: 0.001 },
+      stiffness: { value: 180, min: 4, max: 720, step: 1 },
+      damping: { value: 6.3, min: 0, max: 40, step: 0.01 },
       idleMix: { value: 0.0, min: 0, max: 0.5, step: 0.001 },
       color: "#f0f5ff",
       emissive: "#0b55c7",
@@ -921,6 +2009,186 @@ export function TextDestructionExperience() {
     [],
   );
 
+  const [characterParamControls] = useControls(
+    "Character Modes",
+    () => CHARACTER_PARAM_SCHEMA,
+    [],
+  );
+
+  const [simulationControls] = useControls(
+    "Simulation",
+    () => ({
+      solver: { value: "CPU", options: SIMULATION_SOLVER_OPTIONS },
+      stepRate: { value: 120, min: 30, max: 240, step: 1 },
+      normals: { value: "Static", options: NORMAL_MODE_OPTIONS },
+      normalThreshold: { value: 0.05, min: 0, max: 2, step: 0.01 },
+      glyphSeedSpread: { value: 40, min: 0, max: 200, step: 0.1 },
+      glyphStiffnessSpread: { value: 0.35, min: 0, max: 0.9, step: 0.01 },
+      glyphDampingSpread: { value: 2, min: 0, max: 8, step: 0.01 },
+      glyphStagger: { value: 0.08, min: 0, max: 0.5, step: 0.001 },
+      status: monitor(solverStatusRef, { graph: false, interval: 250 }),
+    }),
+    [],
+  );
+
+  // Welded keeps extruded corners together; Tear lets creases split open.
+  const [seamControls] = useControls(
+    "Seams",
+    () => ({
+      mode: { value: "Welded", options: SEAM_MODE_OPTIONS },
+      tearAngle: { value: 30, min: 0, max: 180, step: 1 },
+      tearCoverage: { value: 1, min: 0, max: 1, step: 0.01 },
+      tearAmount: { value: 1, min: 0, max: 1, step: 0.01 },
+      innerWalls: true,
+    }),
+    [],
+  );
+
+  // Stats are summed over every mesh and read 0 while the overlay is off.
+  const [debugControls] = useControls(
+    "Debug",
+    () => ({
+      overlay: false,
+      radiusSpheres: true,
+      automationPath: true,
+      bounds: true,
+      heatmap: true,
+      heatmapMaxVelocity: { value: 3, min: 0.1, max: 20, step: 0.1 },
+      vertices: monitor(
+        // A number would show in Leva's two-digit precision.
+        () =>
+          (
+            elasticTextRef.current?.getDebugStats().vertexCount ?? 0
+          ).toLocaleString(),
+        { graph: false, interval: 500 },
+      ),
+      simulationMs: monitor(
+        () => elasticTextRef.current?.getDebugStats().simulationMs ?? 0,
+        { graph: true, interval: 50 },
+      ),
+      meanVelocity: monitor(
+        () => elasticTextRef.current?.getDebugStats().meanVelocity ?? 0,
+        { graph: true, interval: 50 },
+      ),
+      maxVelocity: monitor(
+        () => elasticTextRef.current?.getDebugStats().maxVelocity ?? 0,
+        { graph: true, interval: 50 },
+      ),
+    }),
+    [],
+  );
+
+  const [shatterControls, setShatterControls] = useControls(
+    "Shatter",
+    () => ({
+      enabled: false,
+      granularity: { value: "Shards", options: SHATTER_GRANULARITY_OPTIONS },
+      shardSize: { value: 0.22, min: 0.05, max: 1.2, step: 0.01 },
+      burstStrength: { value: 3.2, min: 0, max: 12, step: 0.01 },
+      spin: { value: 6, min: 0, max: 30, step: 0.1 },
+      gravity: { value: 6.5, min: 0, max: 30, step: 0.1 },
+      drag: { value: 0.8, min: 0, max: 6, step: 0.01 },
+      reassemble: true,
+      reassembleDelay: { value: 1.2, min: 0, max: 8, step: 0.01 },
+      reassembleSpring: { value: 9, min: 0.5, max: 40, step: 0.1 },
+      groundCollision: true,
+      restitution: { value: 0.3, min: 0, max: 1, step: 0.01 },
+      friction: { value: 0.6, min: 0, max: 2, step: 0.01 },
+      drop: button(() => {
+        setShatterControlsRef.current?.({ enabled: true });
+        setDropped(true);
+      }),
+      rebuild: button(() => {
+        setDropped(false);
+      }),
+    }),
+    [],
+  );
+
+  const [plasticityControls] = useControls(
+    "Plasticity",
+    () => ({
+      enabled: false,
+      yieldDistance: { value: 0.12, min: 0.005, max: 1, step: 0.005 },
+      flowRate: { value: 12, min: 0.5, max: 60, step: 0.1 },
+      healRate: { value: 0, min: 0, max: 2, step: 0.01 },
+      healDuration: {
+        value: 1.5,
+        min: 0.1,
+        max: 6,
+        step: 0.01,
+        onChange: (value: number) => {
+          healDurationRef.current = value;
+        },
+      },
+      heal: button(() => {
+        elasticTextRef.current?.heal(healDurationRef.current);
+      }),
+    }),
+    [],
+  );
+
+  const [softBodyControls] = useControls(
+    "Soft Body",
+    () => ({
+      enabled: false,
+      stiffness: { value: 0.6, min: 0, max: 1, step: 0.01 },
+      iterations: { value: 4, min: 1, max: 20, step: 1 },
+      preserveVolume: true,
+      volumeStiffness: { value: 0.5, min: 0, max: 1, step: 0.01 },
+    }),
+    [],
+  );
+
+  const [transitionControls] = useControls(
+    "Transition",
+    () => ({
+      enabled: false,
+      style: { value: "Collapse", options: TEXT_TRANSITION_STYLE_OPTIONS },
+      mode: { value: "Crunch", options: DISTORTION_CHARACTER_MODE_OPTIONS },
+      strength: { value: 1.6, min: 0, max: 3, step: 0.01 },
+      duration: { value: 0.8, min: 0.05, max: 4, step: 0.01 },
+      ease: { value: "power2.inOut", options: TEXT_TRANSITION_EASE_OPTIONS },
+      stagger: { value: 0.04, min: 0, max: 0.5, step: 0.001 },
+      overlap: { value: 0.35, min: 0, max: 1, step: 0.01 },
+    }),
+    [],
+  );
+
+  const [sequencerControls, setSequencerControls] = useControls(
+    "Sequencer",
+    () => ({
+      enabled: false,
+      source: { value: "Clock", options: SEQUENCER_SOURCE_OPTIONS },
+      track: { value: DEFAULT_LYRIC_TRACK, rows: 6 },
+      loop: true,
+      burstOnChange: false,
+      importFile: button(() => {
+        void importLyricTrack();
+      }),
+      importStatus: monitor(lyricImportStatusRef, {
+        graph: false,
+        interval: 250,
+      }),
+      restart: button(() => restartSequencer()),
+    }),
+    [importLyricTrack, restartSequencer],
+  );
+
+  const [impulseControls] = useControls(
+    "Impulse",
+    () => ({
+      radius: { value: 1.4, min: 0.1, max: 6, step: 0.01 },
+      strength: { value: 1, min: 0, max: 2, step: 0.01 },
+      mode: { value: "Organic", options: DISTORTION_CHARACTER_MODE_OPTIONS },
+      duration: { value: 0.9, min: 0.1, max: 4, step: 0.01 },
+      scatter: { value: 0, min: 0, max: 4, step: 0.01 },
+      keyboardTrigger: true,
+      trigger: button(() => triggerImpulse()),
+    }),
+    [triggerImpulse],
+  );
+
   const [automationControls, setAutomationControls] = useControls(
     "Distortion Automation",
     () => ({
@@ -942,11 +2210,105 @@ export function TextDestructionExperience() {
       spreadY: { value: 0.82, min: 0.05, max: 1.3, step: 0.01 },
       centerBias: { value: 0.45, min: 0, max: 1, step: 0.01 },
       travelPortion: { value: 0.22, min: 0.01, max: 1, step: 0.01 },
+      lissajousSeconds: { value: 8, min: 1, max: 40, step: 0.1 },
+      lissajousX: { value: 3, min: 0, max: 8, step: 0.01 },
+      lissajousY: { value: 2, min: 0, max: 8, step: 0.01 },
+      lissajousZ: { value: 1, min: 0, max: 8, step: 0.01 },
+      lissajousPhase: { value: 0.25, min: 0, max: 1, step: 0.01 },
+      wanderSpeed: { value: 0.35, min: 0.01, max: 3, step: 0.01 },
+      orbitSeconds: { value: 5, min: 0.5, max: 30, step: 0.1 },
+      orbitTilt: { value: 0.3, min: 0, max: 1, step: 0.01 },
+      recordedTimeScale: { value: 1, min: 0.1, max: 4, step: 0.01 },
+      recordPath: button(() => {
+        elasticTextRef.current?.startPathRecording();
+        pathRecordingStatusRef.current = "Recording";
+      }),
+      stopRecording: button(() => {
+        const path = elasticTextRef.current?.stopPathRecording() ?? null;
+        if (!path) {
+          pathRecordingStatusRef.current = "No hover movement recorded";
+          return;
+        }
+
+        pathRecordingStatusRef.current = `Recorded ${path.duration.toFixed(1)}s`;
+        setRecordedPath(path);
+        setAutomationModeRef.current?.({ mode: "Recorded" });
+      }),
+      clearRecording: button(() => {
+        setRecordedPath(null);
+        pathRecordingStatusRef.current = "None";
+      }),
+      recordingStatus: monitor(pathRecordingStatusRef, {
+        graph: false,
+        interval: 250,
+      }),
+      emitters: { value: 1, min: 1, max: 4, step: 1 },
     }),
     [],
   );
 
-  const [postFxControls, setPostFxControls] = useControls(
+  // Clicks on the text fire the Impulse settings while a take records.
+  const [performanceControls] = useControls(
+    "Performance",
+    () => ({
+      replay: true,
+      record: button(() => {
+        elasticTextRef.current?.startPerformanceRecording();
+        performanceStatusRef.current = "Recording";
+      }),
+      stop: button(() => {
+        const take =
+          elasticTextRef.current?.stopPerformanceRecording() ?? null;
+        if (!take) {
+          performanceStatusRef.current = "Nothing was recorded";
+          return;
+        }
+
+        performanceStatusRef.current = `Recorded ${take.duration.toFixed(1)}s`;
+        setPointerPerformance(take);
+      }),
+      save: button(() => savePointerPerformance()),
+      load: button(() => {
+        void loadPointerPerformance();
+      }),
+      clear: button(() => {
+        setPointerPerformance(null);
+        performanceStatusRef.current = "None";
+      }),
+      status: monitor(performanceStatusRef, { graph: false, interval: 250 }),
+    }),
+    [loadPointerPerformance, savePointerPerformance],
+  );
+
+  const [audioControls, setAudioControls] = useControls(
+    "Audio",
+    () => ({
+      source: { value: "Off", options: AUDIO_SOURCE_OPTIONS },
+      loadFile: button(() => {
+        void loadAudioFile();
+      }),
+      sensitivity: { value: 1.6, min: 0, max: 6, step: 0.01 },
+      smoothing: { value: 0.08, min: 0, max: 1, step: 0.01 },
+      lowTarget: { value: "explodeAmplitude", options: AUDIO_TARGET_OPTIONS },
+      lowAmount: { value: 1.5, min: 0, max: 4, step: 0.01 },
+      midTarget: { value: "noiseAmplitude", options: AUDIO_TARGET_OPTIONS },
+      midAmount: { value: 1, min: 0, max: 4, step: 0.01 },
+      highTarget: { value: "emissiveIntensity", options: AUDIO_TARGET_OPTIONS },
+      highAmount: { value: 2, min: 0, max: 4, step: 0.01 },
+      intensityBand: { value: "Low", options: AUDIO_BAND_OPTIONS },
+      intensityDepth: { value: 0.8, min: 0, max: 1, step: 0.01 },
+      onsetBursts: true,
+      onsetThreshold: { value: 1.6, min: 0.5, max: 4, step: 0.01 },
+      burstStrength: { value: 1, min: 0, max: 3, step: 0.01 },
+      syncBpm: true,
+      status: monitor(audioStatusRef, { graph: false, interval: 250 }),
+      low: monitor(audioLowRef, { graph: true, interval: 30 }),
+      tempo: monitor(audioTempoRef, { graph: false, interval: 250 }),
+    }),
+    [loadAudioFile],
+  );
+
+  const [postFxBaseControls, setPostFxControls] = useControls(
     "Post FX",
     () => ({
       enabled: true,
@@ -1008,7 +2370,7 @@ export function TextDestructionExperience() {
     [],
   );
 
-  const [environmentControls, setEnvironmentControls] = useControls(
+  const [environmentBaseControls, setEnvironmentControls] = useControls(
     "Environment",
     () => ({
       backgroundColor: "#080b12",
@@ -1027,9 +2389,26 @@ export function TextDestructionExperience() {
     }),
     [],
   );
+
+  const [modulationTargets] = useState(() =>
+    collectModulationTargets({
+      Distortion: distortionControls,
+      "Distortion Automation": automationControls,
+      "Post FX": postFxBaseControls,
+      Environment: environmentBaseControls,
+    }),
+  );
+  const modulator1 = useModulatorControls(1, modulationTargets);
+  const modulator2 = useModulatorControls(2, modulationTargets);
+  const modulator3 = useModulatorControls(3, modulationTargets);
+  const modulator4 = useModulatorControls(4, modulationTargets);
+  const modulators = useMemo(
+    () => [modulator1, modulator2, modulator3, modulator4],
+    [modulator1, modulator2, modulator3, modulator4],
+  );
   const lookPresetRef = useRef<LookPreset>("Neon Fracture");
   const distortionControlsRef = useRef(distortionControls);
-  const postFxControlsRef = useRef(postFxControls);
+  const postFxControlsRef = useRef(postFxBaseControls);
   const setDistortionControlsRef = useRef(setDistortionControls);
   const setPostFxControlsRef = useRef(setPostFxControls);
   const setAutomationControlsRef = useRef(setAutomationControls);
@@ -1083,8 +2462,8 @@ export function TextDestructionExperience() {
           rotationAmplitude: 0.8,
           characterMode: "Crunch",
           characterStrength: 1.35,
-          spring: 0.058,
-          friction: 0.885,
+          stiffness: 209,
+          damping: 7.33,
           idleMix: 0,
           color: "#ecece6",
           emissive: "#f8f8f4",
@@ -1168,8 +2547,8 @@ export function TextDestructionExperience() {
           rotationAmplitude: 1.4,
           characterMode: "Shear",
           characterStrength: 1.45,
-          spring: 0.048,
-          friction: 0.894,
+          stiffness: 173,
+          damping: 6.73,
           idleMix: 0,
           color: "#a9ff4f",
           emissive: "#6aff00",
@@ -1264,8 +2643,8 @@ export function TextDestructionExperience() {
           rotationAmplitude: 0.62,
           characterMode: "Melt",
           characterStrength: 1.55,
-          spring: 0.044,
-          friction: 0.902,
+          stiffness: 158,
+          damping: 6.19,
           idleMix: 0,
           color: "#f4f3ed",
           emissive: "#fefef9",
@@ -1354,8 +2733,8 @@ export function TextDestructionExperience() {
         rotationAmplitude: 1.3,
         characterMode: "Rip",
         characterStrength: 1.2,
-        spring: 0.055,
-        friction: 0.892,
+        stiffness: 198,
+        damping: 6.86,
         idleMix: 0,
         color: "#f0f5ff",
         emissive: "#2a62ff",
@@ -1476,6 +2855,7 @@ export function TextDestructionExperience() {
       cameraRadius: { value: 9, min: 4, max: 18, step: 0.1 },
       cameraHeight: { value: 0.6, min: -1, max: 4, step: 0.01 },
       lockOrbitWhilePlaying: true,
+      impulseOnCut: false,
       play: button(() => setTimelinePlaying(true)),
       pause: button(() => setTimelinePlaying(false)),
       reset: button(() => resetTimeline()),
@@ -1538,6 +2918,12 @@ export function TextDestructionExperience() {
           exportSequencePrefixRef.current = value;
         },
       },
+      sequenceRestartSimulation: {
+        value: true,
+        onChange: (value: boolean) => {
+          exportRestartSimulationRef.current = value;
+        },
+      },
       screenshot: button(() => {
         const transparentBackground = exportTransparentRef.current;
 
@@ -1566,6 +2952,16 @@ export function TextDestructionExperience() {
           framePadding: exportSequencePaddingRef.current,
           onBeforeCapture: async () => {
             await beginExportCapture(transparentBackground);
+
+            // Replays the take from its rest pose so a saved seed and
+            // settings export the same frames on every run.
+            if (exportRestartSimulationRef.current) {
+              elasticTextRef.current?.reset();
+              modulationTimeRef.current = 0;
+              envelopeTriggerTimeRef.current = -Infinity;
+              await waitForAnimationFrame();
+              await waitForAnimationFrame();
+            }
           },
           onAfterCapture: async () => {
             await endExportCapture(transparentBackground);
@@ -1584,7 +2980,7 @@ export function TextDestructionExperience() {
   }, []);
 
   const draftText = useMemo(
-    () => textControls.content.trim().replace(/\s+/g, " ") || DEFAULT_TEXT,
+    () => normalizeTextContent(textControls.content) || DEFAULT_TEXT,
     [textControls.content],
   );
 
@@ -1592,13 +2988,133 @@ export function TextDestructionExperience() {
     draftTextRef.current = draftText;
   }, [draftText]);
 
+  useEffect(() => {
+    setPlaybackControlsRef.current = setPlaybackControls;
+  }, [setPlaybackControls]);
+
+  useEffect(() => {
+    setSequencerControlsRef.current = setSequencerControls;
+  }, [setSequencerControls]);
+
+  useEffect(() => {
+    setShatterControlsRef.current = setShatterControls;
+  }, [setShatterControls]);
+
+  useEffect(() => {
+    setAutomationModeRef.current = setAutomationControls;
+  }, [setAutomationControls]);
+
+  useEffect(() => {
+    setAudioControlsRef.current = setAudioControls;
+  }, [setAudioControls]);
+
+  useEffect(() => {
+    const source = asAudioSource(String(audioControls.source));
+    if (source === "Off" || (source === "File" && !audioFile)) {
+      audioStatusRef.current = source === "Off" ? "Off" : "No file loaded";
+      return;
+    }
+
+    const analyzer = audioAnalyzerRef.current ?? new AudioAnalyzer();
+    audioAnalyzerRef.current = analyzer;
+    let stopped = false;
+    audioStatusRef.current = "Starting";
+    const start =
+      source === "File" && audioFile
+        ? analyzer.playFile(audioFile)
+        : analyzer.listenToMicrophone();
+    start.then(
+      () => {
+        if (!stopped) {
+          audioStatusRef.current = source === "File" ? "Playing" : "Listening";
+        }
+      },
+      () => {
+        // After cleanup the analyzer may already be serving the next source.
+        if (!stopped) {
+          audioStatusRef.current =
+            source === "File"
+              ? "Unable to play the file"
+              : "Unable to open the microphone";
+          analyzer.stop();
+        }
+      },
+    );
+
+    return () => {
+      stopped = true;
+      analyzer.stop();
+    };
+  }, [audioControls.source, audioFile]);
+
+  useEffect(
+    () => () => {
+      audioAnalyzerRef.current?.dispose();
+      audioAnalyzerRef.current = null;
+    },
+    [],
+  );
+
   useEffect(() => {
     distortionControlsRef.current = distortionControls;
   }, [distortionControls]);
 
+  const impulseOptions = useMemo<ImpulseOptions>(
+    () => ({
+      radius: impulseControls.radius,
+      strength: impulseControls.strength,
+      mode: asDistortionCharacterMode(String(impulseControls.mode)),
+      duration: impulseControls.duration,
+      scatter: impulseControls.scatter,
+    }),
+    [
+      impulseControls.duration,
+      impulseControls.mode,
+      impulseControls.radius,
+      impulseControls.scatter,
+      impulseControls.strength,
+    ],
+  );
+
+  useEffect(() => {
+    impulseOptionsRef.current = impulseOptions;
+  }, [impulseOptions]);
+
+  useEffect(() => {
+    pointerPerformanceRef.current = pointerPerformance;
+  }, [pointerPerformance]);
+
+  useEffect(() => {
+    if (!impulseControls.keyboardTrigger) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target;
+      if (
+        event.code !== "Space" ||
+        event.repeat ||
+        (target instanceof HTMLElement &&
+          (target.isContentEditable ||
+            target.tagName === "INPUT" ||
+            target.tagName === "TEXTAREA"))
+      ) {
+        return;
+      }
+
+      event.preventDefault();
+      triggerImpulse();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [impulseControls.keyboardTrigger, triggerImpulse]);
+
   useEffect(() => {
-    postFxControlsRef.current = postFxControls;
-  }, [postFxControls]);
+    postFxControlsRef.current = postFxBaseControls;
+  }, [postFxBaseControls]);
 
   useEffect(() => {
     setDistortionControlsRef.current = setDistortionControls;
@@ -1660,8 +3176,8 @@ export function TextDestructionExperience() {
         noiseAmplitude: distortionState.noiseAmplitude,
         explodeAmplitude: distortionState.explodeAmplitude,
         rotationAmplitude: distortionState.rotationAmplitude,
-        spring: distortionState.spring,
-        friction: distortionState.friction,
+        stiffness: distortionState.stiffness,
+        damping: distortionState.damping,
         emissiveVelocityBoost: distortionState.emissiveVelocityBoost,
       },
       postFx: {
@@ -1701,8 +3217,8 @@ export function TextDestructionExperience() {
       noiseAmplitude: snapshot.distortion.noiseAmplitude,
       explodeAmplitude: snapshot.distortion.explodeAmplitude,
       rotationAmplitude: snapshot.distortion.rotationAmplitude,
-      spring: snapshot.distortion.spring,
-      friction: snapshot.distortion.friction,
+      stiffness: snapshot.distortion.stiffness,
+      damping: snapshot.distortion.damping,
       emissiveVelocityBoost: snapshot.distortion.emissiveVelocityBoost,
     };
 
@@ -1762,8 +3278,8 @@ export function TextDestructionExperience() {
           noiseAmplitude: distortionTrack.noiseAmplitude,
           explodeAmplitude: distortionTrack.explodeAmplitude,
           rotationAmplitude: distortionTrack.rotationAmplitude,
-          spring: distortionTrack.spring,
-          friction: distortionTrack.friction,
+          stiffness: distortionTrack.stiffness,
+          damping: distortionTrack.damping,
           emissiveVelocityBoost: distortionTrack.emissiveVelocityBoost,
         };
         applyCamera();
@@ -1793,15 +3309,15 @@ export function TextDestructionExperience() {
             0,
             5,
           ),
-          spring: clamp(
-            snapshot.distortion.spring * (1 + 0.35 * intensity),
-            0.001,
-            0.2,
+          stiffness: clamp(
+            snapshot.distortion.stiffness * (1 + 0.35 * intensity),
+            4,
+            720,
           ),
-          friction: clamp(
-            snapshot.distortion.friction - 0.06 * intensity,
-            0.5,
-            0.999,
+          damping: clamp(
+            snapshot.distortion.damping + 4 * intensity,
+            0,
+            40,
           ),
           emissiveVelocityBoost: clamp(
             snapshot.distortion.emissiveVelocityBoost * (1 + 0.5 * intensity),
@@ -1830,15 +3346,15 @@ export function TextDestructionExperience() {
             0,
             5,
           ),
-          spring: clamp(
-            snapshot.distortion.spring * (1 + 0.08 * intensity),
-            0.001,
-            0.2,
+          stiffness: clamp(
+            snapshot.distortion.stiffness * (1 + 0.08 * intensity),
+            4,
+            720,
           ),
-          friction: clamp(
-            snapshot.distortion.friction - 0.02 * intensity,
-            0.5,
-            0.999,
+          damping: clamp(
+            snapshot.distortion.damping + 1.3 * intensity,
+            0,
+            40,
           ),
           emissiveVelocityBoost: clamp(
             snapshot.distortion.emissiveVelocityBoost * (1 + 0.2 * intensity),
@@ -1855,8 +3371,8 @@ export function TextDestructionExperience() {
           noiseAmplitude: snapshot.distortion.noiseAmplitude,
           explodeAmplitude: snapshot.distortion.explodeAmplitude,
           rotationAmplitude: snapshot.distortion.rotationAmplitude,
-          spring: snapshot.distortion.spring,
-          friction: snapshot.distortion.friction,
+          stiffness: snapshot.distortion.stiffness,
+          damping: snapshot.distortion.damping,
           emissiveVelocityBoost: snapshot.distortion.emissiveVelocityBoost,
           duration: 2.2 / speed,
         },
@@ -1878,6 +3394,10 @@ export function TextDestructionExperience() {
         shotCursor,
       );
 
+      if (timelineControls.impulseOnCut) {
+        timeline.call(triggerImpulse, undefined, shotCursor);
+      }
+
       shotCursor += shotDuration + holdDuration;
     }
 
@@ -1896,11 +3416,26 @@ export function TextDestructionExperience() {
     timelineControls.cameraHeight,
     timelineControls.preset,
     timelineControls.cameraRadius,
+    timelineControls.impulseOnCut,
     timelineControls.speed,
     timelineControls.sweepIntensity,
     timelinePlaying,
+    triggerImpulse,
   ]);
 
+  const characterParams: CharacterModeParams = useMemo(() => {
+    const params: CharacterModeParams = {};
+    const values = characterParamControls as Record<string, number>;
+
+    for (const [key, { modeId, param }] of Object.entries(
+      CHARACTER_PARAM_CONTROLS,
+    )) {
+      params[modeId] = { ...params[modeId], [param]: values[key] };
+    }
+
+    return params;
+  }, [characterParamControls]);
+
   const distortion: DistortionSettings = useMemo(
     () => ({
       noiseAmplitude: distortionControls.noiseAmplitude,
@@ -1908,10 +3443,13 @@ export function TextDestructionExperience() {
       noiseSpeed: distortionControls.noiseSpeed,
       followRate: distortionControls.followRate,
       radius: distortionControls.radius,
+      falloff: asFalloffProfile(String(distortionControls.falloff)),
+      innerRadius: distortionControls.innerRadius,
+      falloffCurve: distortionControls.falloffCurve,
       explodeAmplitude: distortionControls.explodeAmplitude,
       rotationAmplitude: distortionControls.rotationAmplitude,
-      spring: distortionControls.spring,
-      friction: distortionControls.friction,
+      stiffness: distortionControls.stiffness,
+      damping: distortionControls.damping,
       idleMix: distortionControls.idleMix,
       color: distortionControls.color,
       emissive: distortionControls.emissive,
@@ -1924,8 +3462,9 @@ export function TextDestructionExperience() {
         String(distortionControls.characterMode),
       ),
       characterStrength: distortionControls.characterStrength,
+      characterParams,
     }),
-    [distortionControls],
+    [characterParams, distortionControls],
   );
 
   const distortionAutomation: DistortionAutomationSettings = useMemo(() => {
@@ -1951,192 +3490,351 @@ export function TextDestructionExperience() {
       spreadY: automationControls.spreadY,
       centerBias: automationControls.centerBias,
       travelPortion: automationControls.travelPortion,
+      lissajousSeconds: automationControls.lissajousSeconds,
+      lissajousX: automationControls.lissajousX,
+      lissajousY: automationControls.lissajousY,
+      lissajousZ: automationControls.lissajousZ,
+      lissajousPhase: automationControls.lissajousPhase,
+      wanderSpeed: automationControls.wanderSpeed,
+      orbitSeconds: automationControls.orbitSeconds,
+      orbitTilt: automationControls.orbitTilt,
+      recordedPath,
+      recordedTimeScale: automationControls.recordedTimeScale,
+      emitterCount: automationControls.emitters,
     };
-  }, [automationControls]);
+  }, [automationControls, recordedPath]);
 
-  const renderedText = textControls.autoRegen ? draftText : manualRenderedText;
-  const fogMode = asFogMode(String(environmentControls.fogMode));
-  const useTransparentBackground = exportCaptureState.transparentBackground;
-  const fogEnabledForRender =
-    environmentControls.fogEnabled &&
-    !(useTransparentBackground && exportCaptureState.disableFog);
+  const glyphVariation: GlyphVariationSettings = useMemo(
+    () => ({
+      seedSpread: simulationControls.glyphSeedSpread,
+      stiffnessSpread: simulationControls.glyphStiffnessSpread,
+      dampingSpread: simulationControls.glyphDampingSpread,
+      stagger: simulationControls.glyphStagger,
+    }),
+    [
+      simulationControls.glyphDampingSpread,
+      simulationControls.glyphSeedSpread,
+      simulationControls.glyphStagger,
+      simulationControls.glyphStiffnessSpread,
+    ],
+  );
 
-  const chromaticOffset = useMemo(
-    () =>
-      new Vector2(
-        postFxControls.chromaticOffsetX,
-        postFxControls.chromaticOffsetY,
-      ),
-    [postFxControls.chromaticOffsetX, postFxControls.chromaticOffsetY],
+  const normals: NormalSettings = useMemo(
+    () => ({
+      mode: asNormalMode(String(simulationControls.normals)),
+      velocityThreshold: simulationControls.normalThreshold,
+    }),
+    [simulationControls.normalThreshold, simulationControls.normals],
   );
 
-  const postFxChildren = useMemo(() => {
-    const children: ReactElement[] = [];
+  const seams: SeamSettings = useMemo(
+    () => ({
+      mode: asSeamMode(String(seamControls.mode)),
+      tearAngle: seamControls.tearAngle,
+      tearCoverage: seamControls.tearCoverage,
+      tearAmount: seamControls.tearAmount,
+      innerWalls: seamControls.innerWalls,
+    }),
+    [seamControls],
+  );
 
-    const glitchDelayMin = Math.min(
-      postFxControls.glitchDelayMin,
-      postFxControls.glitchDelayMax,
-    );
-    const glitchDelayMax = Math.max(
-      postFxControls.glitchDelayMin,
-      postFxControls.glitchDelayMax,
-    );
-    const glitchDurationMin = Math.min(
-      postFxControls.glitchDurationMin,
-      postFxControls.glitchDurationMax,
-    );
-    const glitchDurationMax = Math.max(
-      postFxControls.glitchDurationMin,
-      postFxControls.glitchDurationMax,
-    );
-    const glitchDelay = new Vector2(glitchDelayMin, glitchDelayMax);
-    const glitchDuration = new Vector2(glitchDurationMin, glitchDurationMax);
-    const glitchStrength = new Vector2(
-      postFxControls.glitchStrengthX,
-      postFxControls.glitchStrengthY,
-    );
-    const glitchChromaticOffset = new Vector2(
-      postFxControls.glitchChromaticX,
-      postFxControls.glitchChromaticY,
-    );
+  const shatter: ShatterSettings = useMemo(
+    () => ({
+      enabled: shatterControls.enabled,
+      granularity: asShatterGranularity(shatterControls.granularity),
+      shardSize: shatterControls.shardSize,
+      burstStrength: shatterControls.burstStrength,
+      spin: shatterControls.spin,
+      gravity: shatterControls.gravity,
+      drag: shatterControls.drag,
+      reassemble: shatterControls.reassemble,
+      reassembleDelay: shatterControls.reassembleDelay,
+      reassembleSpring: shatterControls.reassembleSpring,
+      groundCollision: shatterControls.groundCollision,
+      restitution: shatterControls.restitution,
+      friction: shatterControls.friction,
+      dropped,
+    }),
+    [dropped, shatterControls],
+  );
 
-    if (postFxControls.bloomEnabled) {
-      children.push(
-        <Bloom
-          key="bloom"
-          intensity={postFxControls.bloomIntensity}
-          luminanceThreshold={postFxControls.bloomThreshold}
-          luminanceSmoothing={postFxControls.bloomSmoothing}
-          mipmapBlur
-        />,
-      );
-    }
+  const plasticity: PlasticitySettings = useMemo(
+    () => ({
+      enabled: plasticityControls.enabled,
+      yieldDistance: plasticityControls.yieldDistance,
+      flowRate: plasticityControls.flowRate,
+      healRate: plasticityControls.healRate,
+    }),
+    [plasticityControls],
+  );
 
-    if (postFxControls.dofEnabled) {
-      children.push(
-        <DepthOfField
-          key="dof"
-          target={postFxControls.dofAutoFocusText ? [0, 0, 0] : undefined}
-          focusDistance={postFxControls.dofFocusDistance}
-          focusRange={postFxControls.dofFocusRange}
-          bokehScale={postFxControls.dofBokehScale}
-          resolutionScale={postFxControls.dofResolutionScale}
-        />,
-      );
-    }
+  const softBody: SoftBodySettings = useMemo(
+    () => ({
+      enabled: softBodyControls.enabled,
+      stiffness: softBodyControls.stiffness,
+      iterations: softBodyControls.iterations,
+      preserveVolume: softBodyControls.preserveVolume,
+      volumeStiffness: softBodyControls.volumeStiffness,
+    }),
+    [softBodyControls],
+  );
 
-    if (postFxControls.motionBlurEnabled) {
-      children.push(
-        <CinematicMotionBlur
-          key="motion-blur"
-          strength={postFxControls.motionBlurStrength}
-          direction={[
-            postFxControls.motionBlurDirectionX,
-            postFxControls.motionBlurDirectionY,
-          ]}
-          samples={postFxControls.motionBlurSamples}
-          opacity={postFxControls.motionBlurOpacity}
-        />,
-      );
-    }
+  const debugOverlay: DebugOverlaySettings = useMemo(
+    () => ({
+      enabled: debugControls.overlay,
+      radiusSpheres: debugControls.radiusSpheres,
+      automationPath: debugControls.automationPath,
+      bounds: debugControls.bounds,
+      heatmap: debugControls.heatmap,
+      heatmapMaxVelocity: debugControls.heatmapMaxVelocity,
+    }),
+    [debugControls],
+  );
 
-    if (postFxControls.trailEnabled) {
-      children.push(
-        <TemporalFeedbackTrail
-          key="trail"
-          strength={postFxControls.trailStrength}
-          dispersion={postFxControls.trailDispersion}
-          samples={postFxControls.trailSamples}
-          opacity={postFxControls.trailOpacity}
-        />,
-      );
-    }
+  const transition: TextTransitionSettings = useMemo(
+    () => ({
+      enabled: transitionControls.enabled,
+      style: asTextTransitionStyle(String(transitionControls.style)),
+      mode: asDistortionCharacterMode(String(transitionControls.mode)),
+      strength: transitionControls.strength,
+      duration: transitionControls.duration,
+      ease: String(transitionControls.ease),
+      stagger: transitionControls.stagger,
+      overlap: transitionControls.overlap,
+    }),
+    [transitionControls],
+  );
 
-    if (postFxControls.chromaticEnabled) {
-      children.push(
-        <ChromaticAberration key="chromatic" offset={chromaticOffset} />,
-      );
-    }
+  const [sequencerText, setSequencerText] = useState<string | null>(null);
+  const lyricCues = useMemo(
+    () => parseLyricTrack(sequencerControls.track),
+    [sequencerControls.track],
+  );
+  const sequencerSource = asSequencerSource(String(sequencerControls.source));
 
-    if (postFxControls.glitchEnabled) {
-      children.push(
-        <Glitch
-          key="glitch"
-          mode={asGlitchMode(String(postFxControls.glitchMode))}
-          delay={glitchDelay}
-          duration={glitchDuration}
-          strength={glitchStrength}
-          chromaticAberrationOffset={glitchChromaticOffset}
-          ratio={postFxControls.glitchRatio}
-        />,
-      );
+  useEffect(() => {
+    restartSequencer();
+  }, [lyricCues, restartSequencer, sequencerControls.enabled, sequencerSource]);
+
+  // `Clock` and `BPM` run their own clock, which pauses with the simulation;
+  // `Timeline` reads the playhead of the GSAP timeline.
+  useFrame((_, delta) => {
+    if (!sequencerControls.enabled) {
+      return;
     }
 
-    if (postFxControls.pixelationEnabled) {
-      children.push(
-        <Pixelation
-          key="pixelation"
-          granularity={postFxControls.pixelationGranularity}
-        />,
-      );
+    if (!paused) {
+      sequencerTimeRef.current += delta;
     }
 
-    if (postFxControls.colorDepthEnabled) {
-      children.push(
-        <ColorDepth
-          key="color-depth"
-          bits={Math.round(postFxControls.colorDepthBits)}
-        />,
-      );
+    let position = sequencerTimeRef.current;
+    if (sequencerSource === "Timeline") {
+      position = timelineRef.current?.time() ?? 0;
+    } else if (sequencerSource === "BPM") {
+      position *= automationControls.bpm / 60;
     }
 
-    if (postFxControls.scanlineEnabled) {
-      children.push(
-        <Scanline
-          key="scanline"
-          density={postFxControls.scanlineDensity}
-          opacity={postFxControls.scanlineOpacity}
-        />,
-      );
+    const length = getLyricTrackLength(lyricCues);
+    if (sequencerControls.loop && length > 0) {
+      position %= length;
     }
 
-    if (postFxControls.noiseEnabled) {
-      children.push(
-        <Noise
-          key="noise"
-          blendFunction={BlendFunction.OVERLAY}
-          opacity={postFxControls.noiseOpacity}
-        />,
-      );
+    const cueIndex = findLyricCueIndex(lyricCues, position);
+    if (cueIndex === sequencerCueIndexRef.current) {
+      return;
     }
 
-    if (postFxControls.brutalistCompositeEnabled) {
-      children.push(
-        <BrutalistCompositeFx
-          key="brutalist-composite"
-          posterizeSteps={postFxControls.brutalistPosterizeSteps}
-          edgeStrength={postFxControls.brutalistEdgeStrength}
-          ditherStrength={postFxControls.brutalistDitherStrength}
-          grain={postFxControls.brutalistGrain}
-          warp={postFxControls.brutalistWarp}
-          opacity={postFxControls.brutalistOpacity}
-        />,
-      );
+    const firstApply = sequencerCueIndexRef.current === -2;
+    sequencerCueIndexRef.current = cueIndex;
+    setSequencerText(
+      cueIndex >= 0 ? normalizeTextContent(lyricCues[cueIndex].text) : null,
+    );
+    if (sequencerControls.burstOnChange && cueIndex >= 0 && !firstApply) {
+      triggerImpulse();
     }
+  });
 
-    if (postFxControls.vignetteEnabled) {
-      children.push(
-        <Vignette
-          key="vignette"
-          eskil={false}
-          offset={postFxControls.vignetteOffset}
-          darkness={postFxControls.vignetteDarkness}
-        />,
-      );
+  // Runs ahead of the text's own frame so both overrides land this frame.
+  // Audio modulation layers over the timeline, and modulators over both.
+  useFrame((_, delta) => {
+    modulationTimeRef.current += delta;
+
+    const override: Partial<DistortionSettings> = {
+      ...timelineDistortionOverrideRef.current,
+    };
+    const automationOverride: Partial<DistortionAutomationSettings> = {};
+    const levels: Record<AudioBand, number> = { Low: 0, Mid: 0, High: 0 };
+    const analyzer = audioAnalyzerRef.current;
+
+    if (analyzer?.active) {
+      const frame = analyzer.analyze(delta, {
+        sensitivity: audioControls.sensitivity,
+        smoothing: audioControls.smoothing,
+        onsetThreshold: audioControls.onsetThreshold,
+      });
+      levels.Low = frame.low;
+      levels.Mid = frame.mid;
+      levels.High = frame.high;
+
+      // Each band scales its target up to (1 + amount) times the base value.
+      const mappings: [AudioTarget, number, number][] = [
+        [
+          asAudioTarget(audioControls.lowTarget),
+          audioControls.lowAmount,
+          frame.low,
+        ],
+        [
+          asAudioTarget(audioControls.midTarget),
+          audioControls.midAmount,
+          frame.mid,
+        ],
+        [
+          asAudioTarget(audioControls.highTarget),
+          audioControls.highAmount,
+          frame.high,
+        ],
+      ];
+      for (const [target, amount, level] of mappings) {
+        if (target !== "None") {
+          override[target] =
+            (override[target] ?? distortion[target]) * (1 + level * amount);
+        }
+      }
+
+      const intensityBand = asAudioBand(audioControls.intensityBand);
+      if (intensityBand !== "None") {
+        const depth = audioControls.intensityDepth;
+        automationOverride.intensity =
+          distortionAutomation.intensity *
+          (1 - depth + depth * levels[intensityBand]);
+      }
+      if (audioControls.syncBpm && frame.bpm !== null) {
+        automationOverride.bpm = frame.bpm;
+      }
+
+      if (audioControls.onsetBursts && frame.onset && !paused) {
+        const options = impulseOptionsRef.current;
+        elasticTextRef.current?.triggerImpulse({
+          ...options,
+          strength:
+            (options.strength ?? 1) *
+            audioControls.burstStrength *
+            (0.5 + frame.onsetStrength * 0.5),
+        });
+        envelopeTriggerTimeRef.current = modulationTimeRef.current;
+      }
+
+      audioLowRef.current = frame.low;
+      audioTempoRef.current =
+        frame.bpm === null ? "—" : `${Math.round(frame.bpm)} BPM`;
+    } else {
+      audioLowRef.current = 0;
+      audioTempoRef.current = "—";
     }
 
-    return children;
-  }, [chromaticOffset, postFxControls]);
+    const context: ModulationContext = {
+      time: modulationTimeRef.current,
+      bpm: automationOverride.bpm ?? distortionAutomation.bpm,
+      seed,
+      envelopeAge: modulationTimeRef.current - envelopeTriggerTimeRef.current,
+      audio: levels,
+    };
+    distortionOverrideRef.current = {
+      ...override,
+      ...applyModulators(
+        "Distortion",
+        { ...distortion, ...override },
+        modulators,
+        context,
+      ),
+    };
+    const modulatedAutomation = {
+      ...automationOverride,
+      ...applyModulators(
+        "Distortion Automation",
+        { ...distortionAutomation, ...automationOverride },
+        modulators,
+        context,
+      ),
+    };
+    automationOverrideRef.current =
+      Object.keys(modulatedAutomation).length > 0 ? modulatedAutomation : null;
+
+    const environmentModulation = quantizeModulation(
+      "Environment",
+      applyModulators(
+        "Environment",
+        environmentBaseControls,
+        modulators,
+        context,
+      ),
+    );
+    controlModulationRef.current = {
+      "Post FX": quantizeModulation(
+        "Post FX",
+        applyModulators("Post FX", postFxBaseControls, modulators, context),
+      ),
+      Environment: environmentModulation,
+    };
+    groundYOverrideRef.current = environmentModulation.groundY ?? null;
+  }, -1);
+
+  const baseText = textControls.autoRegen ? draftText : manualRenderedText;
+  const renderedText =
+    sequencerControls.enabled && sequencerText !== null
+      ? sequencerText
+      : baseText;
+
+  const tessellation: CapTessellationSettings = useMemo(
+    () => ({
+      enabled: textControls.capSubdivision,
+      edgeLength: textControls.capEdgeLength,
+      vertexBudget: textControls.capVertexBudget,
+    }),
+    [
+      textControls.capEdgeLength,
+      textControls.capSubdivision,
+      textControls.capVertexBudget,
+    ],
+  );
+
+  const paragraph: TextParagraphSettings = useMemo(
+    () => ({
+      align: asTextAlign(String(textControls.align)),
+      tracking: textControls.tracking,
+      leading: textControls.leading,
+      wrapWidth: textControls.wrapWidth,
+    }),
+    [
+      textControls.align,
+      textControls.leading,
+      textControls.tracking,
+      textControls.wrapWidth,
+    ],
+  );
+
+  const textPath: TextPathSettings = useMemo(
+    () => ({
+      shape: asTextPathShape(String(textPathControls.shape)),
+      radius: textPathControls.radius,
+      amplitude: textPathControls.amplitude,
+      wavelength: textPathControls.wavelength,
+      svgPath: textPathControls.svgPath,
+      svgScale: textPathControls.svgScale,
+      offset: textPathControls.offset,
+    }),
+    [textPathControls],
+  );
+
+  useEffect(() => {
+    if (textPath.shape !== "SVG") {
+      svgPathStatusRef.current = "Unused";
+    } else if (isSvgTextPathUsable(textPath.svgPath)) {
+      svgPathStatusRef.current = "OK";
+    } else {
+      svgPathStatusRef.current = "Unable to parse, text stays straight";
+    }
+  }, [textPath.shape, textPath.svgPath]);
 
   const meshKey = useMemo(
     () =>
@@ -2146,11 +3844,28 @@ export function TextDestructionExperience() {
         textControls.size,
         textControls.depth,
         textControls.curveSegments,
+        tessellation.enabled ? 1 : 0,
+        tessellation.edgeLength,
+        tessellation.vertexBudget,
         textControls.bevelEnabled ? 1 : 0,
         textControls.bevelSize,
         textControls.bevelThickness,
+        paragraph.align,
+        paragraph.tracking,
+        paragraph.leading,
+        paragraph.wrapWidth,
+        textPath.shape,
+        textPath.radius,
+        textPath.amplitude,
+        textPath.wavelength,
+        textPath.svgPath,
+        textPath.svgScale,
+        textPath.offset,
       ].join(':'),
     [
+      paragraph,
+      tessellation,
+      textPath,
       textControls.bevelSize,
       textControls.bevelThickness,
       renderedText,
@@ -2164,44 +3879,19 @@ export function TextDestructionExperience() {
 
   return (
     <>
-      {!useTransparentBackground && (
-        <color
-          attach="background"
-          args={[environmentControls.backgroundColor]}
-        />
-      )}
-
-      {fogEnabledForRender ? (
-        fogMode === "Exp2" ? (
-          <fogExp2
-            attach="fog"
-            args={[
-              environmentControls.fogColor,
-              environmentControls.fogDensity,
-            ]}
-          />
-        ) : (
-          <fog
-            attach="fog"
-            args={[
-              environmentControls.fogColor,
-              environmentControls.fogNear,
-              environmentControls.fogFar,
-            ]}
-          />
-        )
-      ) : (
-        <fog
-          attach="fog"
-          args={[environmentControls.backgroundColor, 10000, 10001]}
-        />
-      )}
+      <EnvironmentScene
+        controls={environmentBaseControls}
+        modulationRef={controlModulationRef}
+        transparentBackground={exportCaptureState.transparentBackground}
+        disableFog={exportCaptureState.disableFog}
+      />
 
       <ambientLight intensity={0.35} color="#d9edff" />
       <directionalLight position={[7, 8, 6]} intensity={2.2} color="#f4f8ff" />
       <pointLight position={[-8, -3, 2]} intensity={1.2} color="#3ea9ff" />
 
       <ElasticText
+        ref={elasticTextRef}
         text={renderedText}
         font={textControls.font}
         size={textControls.size}
@@ -2210,34 +3900,35 @@ export function TextDestructionExperience() {
         bevelSize={textControls.bevelSize}
         bevelThickness={textControls.bevelThickness}
         curveSegments={textControls.curveSegments}
+        tessellation={tessellation}
+        paragraph={paragraph}
+        path={textPath}
         paused={paused}
         seed={seed}
         meshKey={meshKey}
+        solver={asSimulationSolver(String(simulationControls.solver))}
+        stepRate={simulationControls.stepRate}
+        normals={normals}
+        seams={seams}
+        layoutMode={asTextLayoutMode(String(textControls.layout))}
+        glyphVariation={glyphVariation}
+        shatter={shatter}
+        groundY={environmentBaseControls.groundY}
+        groundYOverrideRef={groundYOverrideRef}
+        plasticity={plasticity}
+        softBody={softBody}
+        transition={transition}
         distortion={distortion}
         automation={distortionAutomation}
-        distortionOverrideRef={timelineDistortionOverrideRef}
+        debug={debugOverlay}
+        distortionOverrideRef={distortionOverrideRef}
+        automationOverrideRef={automationOverrideRef}
+        performance={performanceControls.replay ? pointerPerformance : null}
+        clickImpulse={impulseOptions}
         onTogglePause={togglePause}
+        onSolverStarted={reportSolverStarted}
       />
 
-      {environmentControls.groundEnabled && (
-        <mesh
-          position={[0, environmentControls.groundY, 0]}
-          rotation={[-Math.PI / 2, 0, 0]}
-        >
-          <planeGeometry
-            args={[
-              environmentControls.groundSize,
-              environmentControls.groundSize,
-            ]}
-          />
-          <meshStandardMaterial
-            color={environmentControls.groundColor}
-            roughness={environmentControls.groundRoughness}
-            metalness={environmentControls.groundMetalness}
-          />
-        </mesh>
-      )}
-
       <OrbitControls
         ref={orbitControlsRef}
         makeDefault
@@ -2254,11 +3945,10 @@ export function TextDestructionExperience() {
         maxDistance={20}
       />
 
-      {postFxControls.enabled && (
-        <EffectComposer enableNormalPass={false} multisampling={0}>
-          {postFxChildren}
-        </EffectComposer>
-      )}
+      <PostFxEffects
+        controls={postFxBaseControls}
+        modulationRef={controlModulationRef}
+      />
     </>
   );
 }
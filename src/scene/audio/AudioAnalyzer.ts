@@ -0,0 +1,294 @@
+export type AudioBand = 'Low' | 'Mid' | 'High'
+
+export type AudioAnalysisSettings = {
+  // Gain applied to the band energies before they are clamped to 0..1.
+  sensitivity: number
+  // Seconds the band levels take to settle; 0 follows the raw spectrum.
+  smoothing: number
+  // Standard deviations of spectral flux above its recent mean that count as
+  // an onset.
+  onsetThreshold: number
+}
+
+export type AudioFrame = {
+  // Smoothed band energies in 0..1.
+  low: number
+  mid: number
+  high: number
+  onset: boolean
+  // How far the onset rose above the threshold, in 0..1.
+  onsetStrength: number
+  // Tempo estimated from recent onsets, or null until enough have landed.
+  bpm: number | null
+}
+
+const FFT_SIZE = 2048
+const BAND_RANGES: Record<AudioBand, [number, number]> = {
+  Low: [20, 250],
+  Mid: [250, 2000],
+  High: [2000, 12000],
+}
+// Seconds of spectral flux the adaptive onset threshold looks back over.
+const FLUX_WINDOW = 1
+const MIN_ONSET_INTERVAL = 0.1
+// Onsets older than this stop voting on the tempo.
+const TEMPO_WINDOW = 8
+const MIN_TEMPO_ONSETS = 4
+// Inter-onset intervals are folded by octaves into this tempo range.
+const MIN_BPM = 80
+const MAX_BPM = 160
+// 1/s; how quickly the reported tempo follows a new estimate.
+const TEMPO_FOLLOW_RATE = 1.5
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function foldTempo(bpm: number): number {
+  let folded = bpm
+  while (folded < MIN_BPM) {
+    folded *= 2
+  }
+  while (folded >= MAX_BPM) {
+    folded /= 2
+  }
+  return folded
+}
+
+// Votes every pair of recent onsets into a 1 BPM histogram (with a triangular
+// spread to neighbouring bins) and returns the strongest tempo.
+function estimateTempo(onsetTimes: readonly number[]): number | null {
+  if (onsetTimes.length < MIN_TEMPO_ONSETS) {
+    return null
+  }
+
+  const bins = new Float32Array(MAX_BPM - MIN_BPM)
+  for (let first = 0; first < onsetTimes.length; first += 1) {
+    for (let second = first + 1; second < onsetTimes.length; second += 1) {
+      const interval = onsetTimes[second] - onsetTimes[first]
+      if (interval < 60 / (MAX_BPM * 2) || interval > 60 / (MIN_BPM / 2)) {
+        continue
+      }
+
+      const bpm = foldTempo(60 / interval)
+      const bin = Math.floor(bpm - MIN_BPM)
+      const fraction = bpm - MIN_BPM - bin
+      bins[bin] += 1 - fraction
+      if (bin + 1 < bins.length) {
+        bins[bin + 1] += fraction
+      }
+    }
+  }
+
+  let best = -1
+  for (let bin = 0; bin < bins.length; bin += 1) {
+    if (bins[bin] > 0 && (best < 0 || bins[bin] > bins[best])) {
+      best = bin
+    }
+  }
+  if (best < 0) {
+    return null
+  }
+
+  // Centre of mass over the peak and its neighbours for sub-BPM precision.
+  const below = bins[best - 1] ?? 0
+  const above = bins[best + 1] ?? 0
+  const weight = below + bins[best] + above
+  return MIN_BPM + best + (above - below) / weight
+}
+
+// Listens to a local audio file or the microphone through an AnalyserNode and
+// reduces every frame to band energies, spectral-flux onsets and a tempo.
+export class AudioAnalyzer {
+  private readonly context: AudioContext
+  private readonly analyser: AnalyserNode
+  private readonly spectrum: Uint8Array<ArrayBuffer>
+  private readonly previousSpectrum: Float32Array
+  private source: AudioNode | null = null
+  private element: HTMLAudioElement | null = null
+  private stream: MediaStream | null = null
+  // Bumped by `stop` so a microphone request that resolves late is dropped.
+  private session = 0
+  private fluxHistory: { time: number; flux: number }[] = []
+  private onsetTimes: number[] = []
+  private time = 0
+  private lastOnsetTime = -Infinity
+  private levels: Record<AudioBand, number> = { Low: 0, Mid: 0, High: 0 }
+  private tempoEstimate: number | null = null
+  private bpm: number | null = null
+
+  constructor() {
+    this.context = new AudioContext()
+    this.analyser = this.context.createAnalyser()
+    this.analyser.fftSize = FFT_SIZE
+    this.analyser.smoothingTimeConstant = 0.5
+    this.spectrum = new Uint8Array(this.analyser.frequencyBinCount)
+    this.previousSpectrum = new Float32Array(this.analyser.frequencyBinCount)
+  }
+
+  get active(): boolean {
+    return this.source !== null
+  }
+
+  // Loops the file through the speakers while analysing it.
+  async playFile(file: File): Promise<void> {
+    this.stop()
+
+    const element = new Audio(URL.createObjectURL(file))
+    element.loop = true
+    this.element = element
+    this.source = this.context.createMediaElementSource(element)
+    this.source.connect(this.analyser)
+    this.analyser.connect(this.context.destination)
+
+    await this.context.resume()
+    await element.play()
+  }
+
+  // The microphone is analysed but never played back, to avoid feedback.
+  async listenToMicrophone(): Promise<void> {
+    this.stop()
+    const session = this.session
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    if (session !== this.session) {
+      stream.getTracks().forEach((track) => track.stop())
+      return
+    }
+
+    this.stream = stream
+    this.source = this.context.createMediaStreamSource(stream)
+    this.source.connect(this.analyser)
+
+    await this.context.resume()
+  }
+
+  stop(): void {
+    this.session += 1
+    this.source?.disconnect()
+    this.source = null
+    this.analyser.disconnect()
+
+    if (this.element) {
+      this.element.pause()
+      URL.revokeObjectURL(this.element.src)
+      this.element = null
+    }
+    this.stream?.getTracks().forEach((track) => track.stop())
+    this.stream = null
+
+    this.previousSpectrum.fill(0)
+    this.fluxHistory = []
+    this.onsetTimes = []
+    this.lastOnsetTime = -Infinity
+    this.levels = { Low: 0, Mid: 0, High: 0 }
+    this.tempoEstimate = null
+    this.bpm = null
+  }
+
+  dispose(): void {
+    this.stop()
+    void this.context.close()
+  }
+
+  analyze(delta: number, settings: AudioAnalysisSettings): AudioFrame {
+    this.time += delta
+    if (!this.source) {
+      return {
+        low: 0,
+        mid: 0,
+        high: 0,
+        onset: false,
+        onsetStrength: 0,
+        bpm: null,
+      }
+    }
+
+    this.analyser.getByteFrequencyData(this.spectrum)
+
+    const binHz = this.context.sampleRate / FFT_SIZE
+    const follow =
+      settings.smoothing > 0 ? 1 - Math.exp(-delta / settings.smoothing) : 1
+    for (const band of Object.keys(BAND_RANGES) as AudioBand[]) {
+      const [minHz, maxHz] = BAND_RANGES[band]
+      const first = Math.max(Math.floor(minHz / binHz), 1)
+      const last = Math.min(Math.ceil(maxHz / binHz), this.spectrum.length - 1)
+      let sum = 0
+      for (let bin = first; bin <= last; bin += 1) {
+        sum += this.spectrum[bin]
+      }
+
+      const energy = clamp(
+        (sum / Math.max(last - first + 1, 1) / 255) * settings.sensitivity,
+        0,
+        1,
+      )
+      this.levels[band] += (energy - this.levels[band]) * follow
+    }
+
+    // Spectral flux: how much energy rose across the spectrum since last frame.
+    let flux = 0
+    for (let bin = 0; bin < this.spectrum.length; bin += 1) {
+      const magnitude = this.spectrum[bin] / 255
+      flux += Math.max(magnitude - this.previousSpectrum[bin], 0)
+      this.previousSpectrum[bin] = magnitude
+    }
+    flux /= this.spectrum.length
+
+    while (
+      this.fluxHistory.length > 0 &&
+      this.time - this.fluxHistory[0].time > FLUX_WINDOW
+    ) {
+      this.fluxHistory.shift()
+    }
+
+    let mean = 0
+    for (const entry of this.fluxHistory) {
+      mean += entry.flux
+    }
+    mean /= Math.max(this.fluxHistory.length, 1)
+    let variance = 0
+    for (const entry of this.fluxHistory) {
+      variance += (entry.flux - mean) ** 2
+    }
+    const deviation = Math.sqrt(variance / Math.max(this.fluxHistory.length, 1))
+    this.fluxHistory.push({ time: this.time, flux })
+
+    const threshold = mean + settings.onsetThreshold * deviation
+    const onset =
+      this.fluxHistory.length > 8 &&
+      flux > threshold &&
+      flux > 0.002 &&
+      this.time - this.lastOnsetTime >= MIN_ONSET_INTERVAL
+    let onsetStrength = 0
+
+    if (onset) {
+      onsetStrength = clamp((flux - threshold) / Math.max(threshold, 1e-4), 0, 1)
+      this.lastOnsetTime = this.time
+      this.onsetTimes.push(this.time)
+      while (this.time - this.onsetTimes[0] > TEMPO_WINDOW) {
+        this.onsetTimes.shift()
+      }
+
+      this.tempoEstimate = estimateTempo(this.onsetTimes) ?? this.tempoEstimate
+    }
+
+    if (this.tempoEstimate !== null) {
+      this.bpm =
+        this.bpm === null
+          ? this.tempoEstimate
+          : this.bpm +
+            (this.tempoEstimate - this.bpm) *
+              (1 - Math.exp(-TEMPO_FOLLOW_RATE * delta))
+    }
+
+    return {
+      low: this.levels.Low,
+      mid: this.levels.Mid,
+      high: this.levels.High,
+      onset,
+      onsetStrength,
+      bpm: this.bpm,
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { Vector3 } from 'three'
+
+export type PointerPathSample = {
+  // Seconds since the recording started.
+  time: number
+  x: number
+  y: number
+  z: number
+  press: number
+}
+
+// A hover performance in text-local space.
+export type PointerPath = {
+  duration: number
+  samples: PointerPathSample[]
+}
+
+// Collects pointer samples against its own clock, which only advances while
+// the simulation runs.
+export class PointerPathRecorder {
+  private samples: PointerPathSample[] = []
+  private time = 0
+  private active = false
+
+  get recording(): boolean {
+    return this.active
+  }
+
+  start(): void {
+    this.samples = []
+    this.time = 0
+    this.active = true
+  }
+
+  // Null when nothing was hovered during the take.
+  stop(): PointerPath | null {
+    if (!this.active) {
+      return null
+    }
+
+    this.active = false
+    if (this.samples.length === 0) {
+      return null
+    }
+
+    return {
+      duration: Math.max(this.time, this.samples[this.samples.length - 1].time),
+      samples: this.samples,
+    }
+  }
+
+  advance(delta: number): void {
+    if (this.active) {
+      this.time += delta
+    }
+  }
+
+  record(x: number, y: number, z: number, press: number): void {
+    if (!this.active) {
+      return
+    }
+
+    // Several pointer events can land in one frame; keep the latest.
+    const last = this.samples[this.samples.length - 1]
+    if (last && last.time === this.time) {
+      this.samples.pop()
+    }
+    this.samples.push({ time: this.time, x, y, z, press })
+  }
+}
+
+// Writes the position at `time` (looped over the path duration) into `out`
+// and returns the press there. Before the first sample the pointer rests at
+// its first position, unpressed.
+export function samplePointerPath(
+  path: PointerPath,
+  time: number,
+  out: Vector3,
+): number {
+  const { samples } = path
+  const first = samples[0]
+  if (!first) {
+    return 0
+  }
+
+  const duration = Math.max(path.duration, 1e-3)
+  const position = ((time % duration) + duration) % duration
+  if (position < first.time) {
+    out.set(first.x, first.y, first.z)
+    return 0
+  }
+
+  let low = 0
+  let high = samples.length - 1
+  while (low < high) {
+    const middle = (low + high + 1) >> 1
+    if (samples[middle].time <= position) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  const from = samples[low]
+  const to = samples[low + 1]
+  if (!to) {
+    out.set(from.x, from.y, from.z)
+    return from.press
+  }
+
+  const t = (position - from.time) / Math.max(to.time - from.time, 1e-6)
+  out.set(
+    from.x + (to.x - from.x) * t,
+    from.y + (to.y - from.y) * t,
+    from.z + (to.z - from.z) * t,
+  )
+  return from.press + (to.press - from.press) * t
+}
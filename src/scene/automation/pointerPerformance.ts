@@ -0,0 +1,272 @@
+import type { Vector3 } from 'three'
+
+import type { DistortionCharacterMode } from '../ElasticText'
+import { isCharacterModeId } from '../simulation/characterModes'
+import {
+  samplePointerPath,
+  type PointerPath,
+  type PointerPathSample,
+} from './pointerPath'
+
+const PERFORMANCE_VERSION = 1
+
+// One pointer's eased position and press, sampled every simulated frame.
+export type PerformanceTrack = PointerPath & {
+  pointer: number
+  // Glyph mesh the pointer hovered in the `Glyphs` layout, null for the word.
+  glyph: number | null
+}
+
+// An impulse fired by a click during the take, in text-local space.
+export type PerformanceClick = {
+  time: number
+  x: number
+  y: number
+  z: number
+  radius: number
+  strength: number
+  mode: DistortionCharacterMode
+  duration: number
+}
+
+// A hover-and-click take that replays the same way on every run.
+export type PointerPerformance = {
+  version: number
+  duration: number
+  tracks: PerformanceTrack[]
+  clicks: PerformanceClick[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isSample(value: unknown): value is PointerPathSample {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.time) &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.z) &&
+    isFiniteNumber(value.press)
+  )
+}
+
+function isTrack(value: unknown): value is PerformanceTrack {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.duration) &&
+    isFiniteNumber(value.pointer) &&
+    (value.glyph === null || isFiniteNumber(value.glyph)) &&
+    Array.isArray(value.samples) &&
+    value.samples.length > 0 &&
+    value.samples.every(isSample)
+  )
+}
+
+function isClick(value: unknown): value is PerformanceClick {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.time) &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.z) &&
+    isFiniteNumber(value.radius) &&
+    isFiniteNumber(value.strength) &&
+    typeof value.mode === 'string' &&
+    isCharacterModeId(value.mode) &&
+    isFiniteNumber(value.duration)
+  )
+}
+
+export function serializePointerPerformance(
+  performance: PointerPerformance,
+): string {
+  return JSON.stringify(performance)
+}
+
+// Null when the source is not a performance saved by this version.
+export function parsePointerPerformance(
+  source: string,
+): PointerPerformance | null {
+  let value: unknown
+  try {
+    value = JSON.parse(source)
+  } catch {
+    return null
+  }
+
+  if (
+    !isRecord(value) ||
+    value.version !== PERFORMANCE_VERSION ||
+    !isFiniteNumber(value.duration) ||
+    value.duration <= 0 ||
+    !Array.isArray(value.tracks) ||
+    !value.tracks.every(isTrack) ||
+    !Array.isArray(value.clicks) ||
+    !value.clicks.every(isClick)
+  ) {
+    return null
+  }
+
+  const { duration, tracks, clicks } = value
+  return {
+    version: PERFORMANCE_VERSION,
+    duration,
+    tracks: tracks.map((track: PerformanceTrack) => ({
+      pointer: track.pointer,
+      glyph: track.glyph,
+      // Tracks loop with the whole take.
+      duration,
+      samples: [...track.samples].sort((a, b) => a.time - b.time),
+    })),
+    clicks: [...clicks].sort(
+      (a: PerformanceClick, b: PerformanceClick) => a.time - b.time,
+    ),
+  }
+}
+
+// Collects every live pointer once per simulated frame, plus click impulses,
+// against a clock that only advances while the simulation runs.
+export class PointerPerformanceRecorder {
+  private tracks = new Map<string, PerformanceTrack>()
+  private clicks: PerformanceClick[] = []
+  private time = 0
+  private active = false
+
+  get recording(): boolean {
+    return this.active
+  }
+
+  start(): void {
+    this.tracks = new Map()
+    this.clicks = []
+    this.time = 0
+    this.active = true
+  }
+
+  // Null when nothing touched the text during the take.
+  stop(): PointerPerformance | null {
+    if (!this.active) {
+      return null
+    }
+
+    this.active = false
+    const tracks = [...this.tracks.values()]
+    if (tracks.length === 0 && this.clicks.length === 0) {
+      return null
+    }
+
+    const lastTime = Math.max(
+      ...tracks.map((track) => track.samples[track.samples.length - 1].time),
+      ...this.clicks.map((click) => click.time),
+    )
+    const duration = Math.max(this.time, lastTime, 1e-3)
+    for (const track of tracks) {
+      track.duration = duration
+    }
+
+    return {
+      version: PERFORMANCE_VERSION,
+      duration,
+      tracks,
+      clicks: this.clicks,
+    }
+  }
+
+  advance(delta: number): void {
+    if (this.active) {
+      this.time += delta
+    }
+  }
+
+  record(
+    pointer: number,
+    glyph: number | null,
+    x: number,
+    y: number,
+    z: number,
+    press: number,
+  ): void {
+    if (!this.active) {
+      return
+    }
+
+    const key = `${glyph ?? 'word'}:${pointer}`
+    let track = this.tracks.get(key)
+    if (!track) {
+      track = { pointer, glyph, duration: 0, samples: [] }
+      this.tracks.set(key, track)
+    }
+
+    // Keep one sample per frame.
+    const last = track.samples[track.samples.length - 1]
+    if (last && last.time === this.time) {
+      track.samples.pop()
+    }
+    track.samples.push({ time: this.time, x, y, z, press })
+  }
+
+  recordClick(click: Omit<PerformanceClick, 'time'>): void {
+    if (this.active) {
+      this.clicks.push({ ...click, time: this.time })
+    }
+  }
+}
+
+// Loops a performance on its own clock. Restarting the clock with the
+// simulation replays the take frame for frame.
+export class PointerPerformancePlayer {
+  private performance: PointerPerformance | null = null
+  private time = 0
+
+  get tracks(): readonly PerformanceTrack[] {
+    return this.performance?.tracks ?? []
+  }
+
+  load(performance: PointerPerformance | null): void {
+    this.performance = performance
+    this.time = 0
+  }
+
+  restart(): void {
+    this.time = 0
+  }
+
+  // Moves the clock on and returns the clicks it passed, in order.
+  advance(delta: number): PerformanceClick[] {
+    const performance = this.performance
+    const start = this.time
+    const end = start + Math.max(delta, 0)
+    this.time = end
+    if (!performance || end <= start) {
+      return []
+    }
+
+    const duration = Math.max(performance.duration, 1e-3)
+    const passed: PerformanceClick[] = []
+    for (
+      let loopStart = Math.floor(start / duration) * duration;
+      loopStart < end;
+      loopStart += duration
+    ) {
+      for (const click of performance.clicks) {
+        const time = loopStart + click.time
+        if (time >= start && time < end) {
+          passed.push(click)
+        }
+      }
+    }
+
+    return passed
+  }
+
+  // Writes the track's position into `out` and returns its press.
+  sample(track: PerformanceTrack, out: Vector3): number {
+    return samplePointerPath(track, this.time, out)
+  }
+}
@@ -0,0 +1,252 @@
+import type { Vector3 } from 'three'
+import {
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  EdgesGeometry,
+  Group,
+  Line,
+  LineBasicMaterial,
+  LineSegments,
+  Mesh,
+  MeshBasicMaterial,
+  SphereGeometry,
+} from 'three'
+
+import type { DebugOverlaySettings, TextBounds } from '../ElasticText'
+import type { EmitterFrame } from '../simulation/types'
+
+// Spheres beyond this many live emitters are not drawn.
+const MAX_SPHERES = 16
+const MAX_TRAILS = 4
+// Samples kept per automation trail, about three seconds at 60 fps.
+const TRAIL_LENGTH = 180
+// Drawn over the text so the helpers stay readable inside the glyphs.
+const OVERLAY_RENDER_ORDER = 10
+
+export type SimulationStats = {
+  vertexCount: number
+  // Milliseconds spent in the solver during the last simulated frame.
+  simulationMs: number
+  // Vertex speeds in units per second. The GPU solver keeps velocities on the
+  // GPU, so its meshes do not count towards them.
+  meanVelocity: number
+  maxVelocity: number
+}
+
+type Trail = {
+  line: Line
+  positions: Float32Array
+  // Ring buffer of recent targets, oldest first from `head`.
+  history: Float32Array
+  head: number
+  count: number
+}
+
+// Wireframe helpers in a mesh's local space: an influence sphere per emitter,
+// trails behind the automation targets and the rest bounds. Also keeps the
+// mesh's share of the live stats.
+export class SimulationDebugOverlay {
+  readonly group = new Group()
+  readonly vertexCount: number
+  simulationMs = 0
+  velocitySum = 0
+  velocityCount = 0
+  maxVelocity = 0
+
+  private readonly sphereGeometry = new SphereGeometry(1, 20, 12)
+  private readonly sphereMaterial = new MeshBasicMaterial({
+    color: '#00e5ff',
+    wireframe: true,
+    transparent: true,
+    depthTest: false,
+  })
+  private readonly spheres: Mesh[] = []
+  private readonly trailMaterial = new LineBasicMaterial({
+    color: '#ffcc00',
+    transparent: true,
+    depthTest: false,
+  })
+  private readonly trails: Trail[] = []
+  private readonly boundsMaterial = new LineBasicMaterial({
+    color: '#ff3d7f',
+    transparent: true,
+    depthTest: false,
+  })
+  private readonly boundsBox: LineSegments
+
+  constructor(vertexCount: number) {
+    this.vertexCount = vertexCount
+
+    for (let index = 0; index < MAX_SPHERES; index += 1) {
+      const sphere = new Mesh(this.sphereGeometry, this.sphereMaterial)
+      sphere.visible = false
+      this.spheres.push(sphere)
+      this.group.add(sphere)
+    }
+
+    for (let index = 0; index < MAX_TRAILS; index += 1) {
+      const positions = new Float32Array(TRAIL_LENGTH * 3)
+      const geometry = new BufferGeometry()
+      geometry.setAttribute('position', new BufferAttribute(positions, 3))
+      geometry.setDrawRange(0, 0)
+      const line = new Line(geometry, this.trailMaterial)
+      line.frustumCulled = false
+      this.trails.push({
+        line,
+        positions,
+        history: new Float32Array(TRAIL_LENGTH * 3),
+        head: 0,
+        count: 0,
+      })
+      this.group.add(line)
+    }
+
+    const boxGeometry = new BoxGeometry(1, 1, 1)
+    this.boundsBox = new LineSegments(
+      new EdgesGeometry(boxGeometry),
+      this.boundsMaterial,
+    )
+    boxGeometry.dispose()
+    this.group.add(this.boundsBox)
+
+    // Helpers must not catch the pointer events meant for the text.
+    this.group.traverse((object) => {
+      object.raycast = () => {}
+      object.renderOrder = OVERLAY_RENDER_ORDER
+    })
+  }
+
+  // Starts a simulated frame: redraws the helpers and clears the solver time.
+  update(
+    settings: DebugOverlaySettings,
+    emitters: readonly EmitterFrame[],
+    automationTargets: readonly Vector3[],
+    bounds: TextBounds,
+  ): void {
+    this.simulationMs = 0
+
+    let sphereIndex = 0
+    if (settings.radiusSpheres) {
+      for (const emitter of emitters) {
+        if (sphereIndex >= MAX_SPHERES) {
+          break
+        }
+        if (emitter.press <= 0.01) {
+          continue
+        }
+
+        const sphere = this.spheres[sphereIndex]
+        sphere.position.set(emitter.x, emitter.y, emitter.z)
+        sphere.scale.setScalar(Math.max(emitter.radius, 1e-3))
+        sphere.visible = true
+        sphereIndex += 1
+      }
+    }
+    for (let index = sphereIndex; index < MAX_SPHERES; index += 1) {
+      this.spheres[index].visible = false
+    }
+
+    this.trails.forEach((trail, index) => {
+      const target = automationTargets[index]
+      trail.line.visible = settings.automationPath && target !== undefined
+      if (!target) {
+        trail.count = 0
+        return
+      }
+
+      trail.history[trail.head * 3] = target.x
+      trail.history[trail.head * 3 + 1] = target.y
+      trail.history[trail.head * 3 + 2] = target.z
+      trail.head = (trail.head + 1) % TRAIL_LENGTH
+      trail.count = Math.min(trail.count + 1, TRAIL_LENGTH)
+      if (!trail.line.visible) {
+        return
+      }
+
+      const oldest = (trail.head - trail.count + TRAIL_LENGTH) % TRAIL_LENGTH
+      for (let sample = 0; sample < trail.count; sample += 1) {
+        const source = ((oldest + sample) % TRAIL_LENGTH) * 3
+        trail.positions[sample * 3] = trail.history[source]
+        trail.positions[sample * 3 + 1] = trail.history[source + 1]
+        trail.positions[sample * 3 + 2] = trail.history[source + 2]
+      }
+
+      const geometry = trail.line.geometry
+      geometry.setDrawRange(0, trail.count)
+      geometry.attributes.position.needsUpdate = true
+    })
+
+    this.boundsBox.visible = settings.bounds
+    this.boundsBox.position.set(
+      (bounds.minX + bounds.maxX) * 0.5,
+      (bounds.minY + bounds.maxY) * 0.5,
+      (bounds.minZ + bounds.maxZ) * 0.5,
+    )
+    this.boundsBox.scale.set(
+      Math.max(bounds.maxX - bounds.minX, 1e-3),
+      Math.max(bounds.maxY - bounds.minY, 1e-3),
+      Math.max(bounds.maxZ - bounds.minZ, 1e-3),
+    )
+  }
+
+  // Records the solver time and, when velocities live on the CPU, their
+  // speeds.
+  measure(simulationMs: number, velocityArray: Float32Array | null): void {
+    this.simulationMs = simulationMs
+    this.velocitySum = 0
+    this.velocityCount = 0
+    this.maxVelocity = 0
+    if (!velocityArray) {
+      return
+    }
+
+    for (let offset = 0; offset < velocityArray.length; offset += 3) {
+      const speed = Math.hypot(
+        velocityArray[offset],
+        velocityArray[offset + 1],
+        velocityArray[offset + 2],
+      )
+      this.velocitySum += speed
+      this.maxVelocity = Math.max(this.maxVelocity, speed)
+    }
+    this.velocityCount = velocityArray.length / 3
+  }
+
+  dispose(): void {
+    this.group.removeFromParent()
+    this.sphereGeometry.dispose()
+    this.sphereMaterial.dispose()
+    this.trailMaterial.dispose()
+    for (const trail of this.trails) {
+      trail.line.geometry.dispose()
+    }
+    this.boundsBox.geometry.dispose()
+    this.boundsMaterial.dispose()
+  }
+}
+
+// Sums the stats of every overlaid mesh.
+export function combineSimulationStats(
+  overlays: Iterable<SimulationDebugOverlay>,
+): SimulationStats {
+  let vertexCount = 0
+  let simulationMs = 0
+  let velocitySum = 0
+  let velocityCount = 0
+  let maxVelocity = 0
+  for (const overlay of overlays) {
+    vertexCount += overlay.vertexCount
+    simulationMs += overlay.simulationMs
+    velocitySum += overlay.velocitySum
+    velocityCount += overlay.velocityCount
+    maxVelocity = Math.max(maxVelocity, overlay.maxVelocity)
+  }
+
+  return {
+    vertexCount,
+    simulationMs,
+    meanVelocity: velocityCount > 0 ? velocitySum / velocityCount : 0,
+    maxVelocity,
+  }
+}
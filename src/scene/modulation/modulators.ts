@@ -0,0 +1,114 @@
+import type { AudioBand } from '../audio/AudioAnalyzer'
+import { createSeededRandom } from '../simulation/random'
+
+export type ModulatorSource = 'LFO' | 'Envelope' | 'Audio'
+
+export type LfoShape = 'Sine' | 'Square' | 'Saw' | 'Random Hold'
+
+export type ModulatorSettings = {
+  enabled: boolean
+  // Leva path of the modulated control, e.g. `Post FX.bloomIntensity`.
+  target: string
+  source: ModulatorSource
+  shape: LfoShape
+  // Cycles per second, or the cycle length in beats when tempo synced.
+  rate: number
+  tempoSync: boolean
+  beats: number
+  // Cycle offset in 0..1.
+  phase: number
+  // Envelope seconds to peak and to fall back to 1/e.
+  attack: number
+  release: number
+  band: AudioBand
+  // Both as a fraction of the control's min..max range.
+  depth: number
+  offset: number
+}
+
+export type ModulationContext = {
+  // Seconds on the modulation clock.
+  time: number
+  bpm: number
+  seed: number
+  // Seconds since the envelope was last triggered.
+  envelopeAge: number
+  audio: Record<AudioBand, number>
+}
+
+export type ModulationRange = {
+  min: number
+  max: number
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function sampleLfo(
+  settings: ModulatorSettings,
+  context: ModulationContext,
+  slot: number,
+): number {
+  const frequency = settings.tempoSync
+    ? context.bpm / 60 / Math.max(settings.beats, 1e-3)
+    : settings.rate
+  const cycles = context.time * frequency + settings.phase
+  const position = cycles - Math.floor(cycles)
+
+  switch (settings.shape) {
+    case 'Square':
+      return position < 0.5 ? 1 : -1
+    case 'Saw':
+      return position * 2 - 1
+    case 'Random Hold': {
+      // A new seeded value each cycle, identical across runs.
+      const random = createSeededRandom(
+        context.seed * 7919 + slot * 104729 + Math.floor(cycles),
+      )
+      return random() * 2 - 1
+    }
+    case 'Sine':
+    default:
+      return Math.sin(position * Math.PI * 2)
+  }
+}
+
+// LFOs swing -1..1; envelopes and audio followers rise 0..1.
+export function evaluateModulator(
+  settings: ModulatorSettings,
+  context: ModulationContext,
+  slot: number,
+): number {
+  switch (settings.source) {
+    case 'Envelope': {
+      const age = context.envelopeAge
+      const attack = Math.max(settings.attack, 1e-3)
+      if (age < attack) {
+        return age / attack
+      }
+      return Math.exp(-(age - attack) / Math.max(settings.release, 1e-3))
+    }
+    case 'Audio':
+      return context.audio[settings.band]
+    case 'LFO':
+    default:
+      return sampleLfo(settings, context, slot)
+  }
+}
+
+// Adds `offset + depth * modulation` (in fractions of the range) to the base
+// value and keeps the result inside the control's range.
+export function modulateValue(
+  base: number,
+  range: ModulationRange,
+  settings: ModulatorSettings,
+  modulation: number,
+): number {
+  const span = range.max - range.min
+  return clamp(
+    base + (settings.offset + settings.depth * modulation) * span,
+    range.min,
+    range.max,
+  )
+}
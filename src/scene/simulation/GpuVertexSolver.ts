@@ -0,0 +1,653 @@
+import { GPUComputationRenderer, type Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js'
+import type { IUniform, Texture, WebGLRenderer } from 'three'
+import {
+  DataTexture,
+  FloatType,
+  NearestFilter,
+  RedFormat,
+  RGBAFormat,
+  UnsignedByteType,
+  Vector2,
+} from 'three'
+
+import {
+  CHARACTER_MODES,
+  getCharacterMode,
+  getCharacterModeIndex,
+  resolveCharacterParams,
+  type ImpulseStyle,
+} from './characterModes'
+import { IMPULSE_ACCELERATION_SCALE } from './cpuSolver'
+import {
+  falloffChunk,
+  getFalloffProfileIndex,
+  MAX_FALLOFF_CURVE_POINTS,
+  sanitizeFalloffCurve,
+} from './falloff'
+import { createSeededPermutation } from './random'
+import type { SimulationFrame } from './types'
+
+// Columns the emitter and impulse textures start with; they double whenever a
+// frame carries more.
+const INITIAL_PARAMETER_CAPACITY = 8
+
+const IMPULSE_STYLE_INDEX: Record<ImpulseStyle, number> = {
+  Radial: 0,
+  Shear: 1,
+  Rip: 2,
+  Inward: 3,
+  Down: 4,
+}
+
+// Every registered mode's params are packed into one float array; each mode
+// reads its slice by offset.
+const CHARACTER_PARAM_OFFSETS: number[] = []
+let characterParamCount = 0
+for (const mode of CHARACTER_MODES) {
+  CHARACTER_PARAM_OFFSETS.push(characterParamCount)
+  characterParamCount += Object.keys(mode.params).length
+}
+const CHARACTER_PARAM_COUNT = Math.max(characterParamCount, 1)
+
+// One column per emitter or impulse: its origin in the first row and its
+// parameters in the second.
+function createParameterTexture(capacity: number): DataTexture {
+  const texture = new DataTexture(
+    new Float32Array(capacity * 2 * 4),
+    capacity,
+    2,
+    RGBAFormat,
+    FloatType,
+  )
+  texture.minFilter = NearestFilter
+  texture.magFilter = NearestFilter
+  texture.needsUpdate = true
+  return texture
+}
+
+type GpuVertexSolverInput = {
+  basePositionArray: Float32Array
+  baseNormalArray: Float32Array
+}
+
+export class GpuVertexSolver {
+  readonly vertexCount: number
+  readonly lookupArray: Float32Array
+
+  private readonly compute: GPUComputationRenderer
+  private readonly positionVariable: Variable
+  private readonly velocityVariable: Variable
+  private readonly restVariable: Variable
+  private readonly uniforms: Record<string, IUniform>
+  private readonly permutationTexture: DataTexture
+  private permutationSeed = 0
+
+  constructor(renderer: WebGLRenderer, input: GpuVertexSolverInput) {
+    this.vertexCount = Math.floor(input.basePositionArray.length / 3)
+
+    const textureSize = Math.max(1, Math.ceil(Math.sqrt(this.vertexCount)))
+    this.compute = new GPUComputationRenderer(textureSize, textureSize, renderer)
+
+    const basePositionTexture = this.compute.createTexture()
+    const baseNormalTexture = this.compute.createTexture()
+    const initialVelocityTexture = this.compute.createTexture()
+    const initialRestTexture = this.compute.createTexture()
+    const basePositionData = basePositionTexture.image.data as Float32Array
+    const baseNormalData = baseNormalTexture.image.data as Float32Array
+    const initialRestData = initialRestTexture.image.data as Float32Array
+
+    this.lookupArray = new Float32Array(this.vertexCount * 2)
+
+    for (let vertex = 0; vertex < this.vertexCount; vertex += 1) {
+      const source = vertex * 3
+      const texel = vertex * 4
+
+      basePositionData[texel] = input.basePositionArray[source]
+      basePositionData[texel + 1] = input.basePositionArray[source + 1]
+      basePositionData[texel + 2] = input.basePositionArray[source + 2]
+      basePositionData[texel + 3] = 1
+
+      baseNormalData[texel] = input.baseNormalArray[source]
+      baseNormalData[texel + 1] = input.baseNormalArray[source + 1]
+      baseNormalData[texel + 2] = input.baseNormalArray[source + 2]
+      baseNormalData[texel + 3] = 0
+
+      this.lookupArray[vertex * 2] = ((vertex % textureSize) + 0.5) / textureSize
+      this.lookupArray[vertex * 2 + 1] =
+        (Math.floor(vertex / textureSize) + 0.5) / textureSize
+    }
+
+    initialRestData.set(basePositionData)
+
+    this.positionVariable = this.compute.addVariable(
+      'texturePosition',
+      positionShader,
+      basePositionTexture,
+    )
+    this.velocityVariable = this.compute.addVariable(
+      'textureVelocity',
+      velocityShader,
+      initialVelocityTexture,
+    )
+    this.restVariable = this.compute.addVariable(
+      'textureRest',
+      restShader,
+      initialRestTexture,
+    )
+
+    const dependencies = [
+      this.positionVariable,
+      this.velocityVariable,
+      this.restVariable,
+    ]
+    this.compute.setVariableDependencies(this.positionVariable, dependencies)
+    this.compute.setVariableDependencies(this.velocityVariable, dependencies)
+    this.compute.setVariableDependencies(this.restVariable, dependencies)
+
+    this.permutationTexture = new DataTexture(
+      createSeededPermutation(this.permutationSeed),
+      256,
+      1,
+      RedFormat,
+      UnsignedByteType,
+    )
+    this.permutationTexture.minFilter = NearestFilter
+    this.permutationTexture.magFilter = NearestFilter
+    this.permutationTexture.needsUpdate = true
+
+    this.uniforms = {
+      uBasePosition: { value: basePositionTexture },
+      uBaseNormal: { value: baseNormalTexture },
+      uTime: { value: 0 },
+      uSeed: { value: 0 },
+      uPermutation: { value: this.permutationTexture },
+      uNoiseAmplitude: { value: 0 },
+      uNoiseFrequency: { value: 0 },
+      uExplodeAmplitude: { value: 0 },
+      uRotationAmplitude: { value: 0 },
+      uCharacterStrength: { value: 0 },
+      uStiffness: { value: 0 },
+      uDampingFactor: { value: 1 },
+      uTimeStep: { value: 0 },
+      uIdleMix: { value: 0 },
+      uYieldDistance: { value: 0 },
+      uFlowStep: { value: 0 },
+      uHealStep: { value: 0 },
+      uFalloffProfile: { value: 0 },
+      uFalloffInner: { value: 0 },
+      uFalloffCurveCount: { value: 0 },
+      uFalloffCurve: {
+        value: Array.from(
+          { length: MAX_FALLOFF_CURVE_POINTS },
+          () => new Vector2(),
+        ),
+      },
+      uCharacterParams: { value: new Array<number>(CHARACTER_PARAM_COUNT).fill(0) },
+      uEmitterCount: { value: 0 },
+      uEmitters: { value: createParameterTexture(INITIAL_PARAMETER_CAPACITY) },
+      uImpulseCount: { value: 0 },
+      uImpulses: { value: createParameterTexture(INITIAL_PARAMETER_CAPACITY) },
+    }
+
+    // Every pass shares one uniform set; the motion passes evaluate the same
+    // target.
+    Object.assign(this.positionVariable.material.uniforms, this.uniforms)
+    Object.assign(this.velocityVariable.material.uniforms, this.uniforms)
+    Object.assign(this.restVariable.material.uniforms, this.uniforms)
+
+    const error = this.compute.init()
+    if (error !== null) {
+      this.compute.dispose()
+      throw new Error(`GPU simulation unavailable: ${error}`)
+    }
+  }
+
+  get positionTexture(): Texture {
+    return this.compute.getCurrentRenderTarget(this.positionVariable).texture
+  }
+
+  get velocityTexture(): Texture {
+    return this.compute.getCurrentRenderTarget(this.velocityVariable).texture
+  }
+
+  step(frame: SimulationFrame): void {
+    const uniforms = this.uniforms
+    const distortion = frame.distortion
+
+    uniforms.uSeed.value = frame.seed
+    if (frame.seed !== this.permutationSeed) {
+      this.permutationSeed = frame.seed
+      this.permutationTexture.image.data = createSeededPermutation(frame.seed)
+      this.permutationTexture.needsUpdate = true
+    }
+    uniforms.uNoiseAmplitude.value = distortion.noiseAmplitude
+    uniforms.uNoiseFrequency.value = distortion.noiseFrequency
+    uniforms.uExplodeAmplitude.value = distortion.explodeAmplitude
+    uniforms.uRotationAmplitude.value = distortion.rotationAmplitude
+    uniforms.uCharacterStrength.value = distortion.characterStrength
+    uniforms.uStiffness.value = distortion.stiffness
+    uniforms.uDampingFactor.value = Math.exp(-distortion.damping * frame.timeStep)
+    uniforms.uTimeStep.value = frame.timeStep
+    uniforms.uIdleMix.value = distortion.idleMix
+
+    const plasticity = frame.plasticity
+    const healRemaining = 1 - Math.min(Math.max(plasticity.heal, 0), 1)
+    uniforms.uYieldDistance.value = Math.max(plasticity.yieldDistance, 0)
+    uniforms.uFlowStep.value = plasticity.enabled
+      ? 1 - Math.exp(-Math.max(plasticity.flowRate, 0) * frame.timeStep)
+      : 0
+    uniforms.uHealStep.value =
+      1 - Math.pow(healRemaining, 1 / Math.max(frame.substeps, 1))
+    uniforms.uFalloffProfile.value = getFalloffProfileIndex(distortion.falloff)
+    uniforms.uFalloffInner.value = distortion.innerRadius
+
+    // Unused slots repeat the last point so the shader's fallback stays valid.
+    const falloffCurve = sanitizeFalloffCurve(distortion.falloffCurve)
+    const falloffCurveUniform = uniforms.uFalloffCurve.value as Vector2[]
+    falloffCurveUniform.forEach((point, index) => {
+      const [x, y] = falloffCurve[Math.min(index, falloffCurve.length - 1)]
+      point.set(x, y)
+    })
+    uniforms.uFalloffCurveCount.value = falloffCurve.length
+
+    const characterParams = uniforms.uCharacterParams.value as number[]
+    CHARACTER_MODES.forEach((mode, modeIndex) => {
+      const params = resolveCharacterParams(mode, distortion.characterParams)
+      Object.keys(mode.params).forEach((key, paramIndex) => {
+        characterParams[CHARACTER_PARAM_OFFSETS[modeIndex] + paramIndex] =
+          params[key]
+      })
+    })
+
+    const emitters = this.reserveParameters(
+      uniforms.uEmitters,
+      frame.emitters.length,
+    )
+    frame.emitters.forEach((emitter, index) => {
+      emitters.setColumn(
+        index,
+        [emitter.x, emitter.y, emitter.z, Math.max(emitter.radius, 0.0001)],
+        [emitter.press, getCharacterModeIndex(emitter.mode), 0, 0],
+      )
+    })
+    uniforms.uEmitterCount.value = frame.emitters.length
+
+    const impulses = this.reserveParameters(
+      uniforms.uImpulses,
+      frame.impulses.length,
+    )
+    frame.impulses.forEach((impulse, index) => {
+      impulses.setColumn(
+        index,
+        [impulse.x, impulse.y, impulse.z, impulse.radius],
+        [
+          impulse.strength,
+          impulse.progress,
+          IMPULSE_STYLE_INDEX[getCharacterMode(impulse.mode).impulse],
+          0,
+        ],
+      )
+    })
+    uniforms.uImpulseCount.value = frame.impulses.length
+
+    for (let substep = 0; substep < frame.substeps; substep += 1) {
+      uniforms.uTime.value =
+        frame.time + substep * frame.timeStep * distortion.noiseSpeed
+      this.compute.compute()
+    }
+  }
+
+  dispose(): void {
+    this.uniforms.uBasePosition.value?.dispose()
+    this.uniforms.uBaseNormal.value?.dispose()
+    this.permutationTexture.dispose()
+    this.uniforms.uEmitters.value.dispose()
+    this.uniforms.uImpulses.value.dispose()
+    this.compute.dispose()
+  }
+
+  // Makes sure the texture behind `uniform` has room for `count` columns,
+  // replacing it with one twice as wide as often as needed.
+  private reserveParameters(
+    uniform: IUniform<DataTexture>,
+    count: number,
+  ): {
+    setColumn: (index: number, origin: number[], params: number[]) => void
+  } {
+    let texture = uniform.value
+    let capacity = texture.image.width
+    if (count > capacity) {
+      while (capacity < count) {
+        capacity *= 2
+      }
+      texture.dispose()
+      texture = createParameterTexture(capacity)
+      uniform.value = texture
+    }
+    texture.needsUpdate = true
+
+    const data = texture.image.data as Float32Array
+    return {
+      setColumn: (index, origin, params) => {
+        data.set(origin, index * 4)
+        data.set(params, (capacity + index) * 4)
+      },
+    }
+  }
+}
+
+// GLSL port of simplex-noise's 3D noise (MIT, after Stefan Gustavson) over
+// the seeded permutation in `uPermutation`, so the shader samples the same
+// field as the CPU and Worker solvers.
+const simplexNoiseChunk = /* glsl */ `
+uniform sampler2D uPermutation;
+
+const vec3 SIMPLEX_GRADIENTS[12] = vec3[12](
+  vec3(1.0, 1.0, 0.0),
+  vec3(-1.0, 1.0, 0.0),
+  vec3(1.0, -1.0, 0.0),
+  vec3(-1.0, -1.0, 0.0),
+  vec3(1.0, 0.0, 1.0),
+  vec3(-1.0, 0.0, 1.0),
+  vec3(1.0, 0.0, -1.0),
+  vec3(-1.0, 0.0, -1.0),
+  vec3(0.0, 1.0, 1.0),
+  vec3(0.0, -1.0, 1.0),
+  vec3(0.0, 1.0, -1.0),
+  vec3(0.0, -1.0, -1.0)
+);
+
+int permute(int index) {
+  return int(texelFetch(uPermutation, ivec2(index & 255, 0), 0).r * 255.0 + 0.5);
+}
+
+float simplexCorner(vec3 offset, ivec3 corner) {
+  float t = 0.6 - dot(offset, offset);
+  if (t < 0.0) {
+    return 0.0;
+  }
+
+  int gradient = permute(corner.x + permute(corner.y + permute(corner.z)));
+  t *= t;
+  return t * t * dot(SIMPLEX_GRADIENTS[gradient % 12], offset);
+}
+
+float snoise(vec3 v) {
+  const float F3 = 1.0 / 3.0;
+  const float G3 = 1.0 / 6.0;
+
+  vec3 cell = floor(v + (v.x + v.y + v.z) * F3);
+  vec3 x0 = v - (cell - (cell.x + cell.y + cell.z) * G3);
+
+  vec3 i1;
+  vec3 i2;
+  if (x0.x >= x0.y) {
+    if (x0.y >= x0.z) {
+      i1 = vec3(1.0, 0.0, 0.0);
+      i2 = vec3(1.0, 1.0, 0.0);
+    } else if (x0.x >= x0.z) {
+      i1 = vec3(1.0, 0.0, 0.0);
+      i2 = vec3(1.0, 0.0, 1.0);
+    } else {
+      i1 = vec3(0.0, 0.0, 1.0);
+      i2 = vec3(1.0, 0.0, 1.0);
+    }
+  } else if (x0.y < x0.z) {
+    i1 = vec3(0.0, 0.0, 1.0);
+    i2 = vec3(0.0, 1.0, 1.0);
+  } else if (x0.x < x0.z) {
+    i1 = vec3(0.0, 1.0, 0.0);
+    i2 = vec3(0.0, 1.0, 1.0);
+  } else {
+    i1 = vec3(0.0, 1.0, 0.0);
+    i2 = vec3(1.0, 1.0, 0.0);
+  }
+
+  ivec3 corner = ivec3(cell) & 255;
+  return 32.0 * (
+    simplexCorner(x0, corner) +
+    simplexCorner(x0 - i1 + G3, corner + ivec3(i1)) +
+    simplexCorner(x0 - i2 + 2.0 * G3, corner + ivec3(i2)) +
+    simplexCorner(x0 - 1.0 + 3.0 * G3, corner + 1)
+  );
+}
+`
+
+function buildCharacterModeChunk(): string {
+  const branches = CHARACTER_MODES.map((mode, modeIndex) => {
+    const params = Object.keys(mode.params)
+      .map(
+        (key, paramIndex) =>
+          `    float ${key} = uCharacterParams[${CHARACTER_PARAM_OFFSETS[modeIndex] + paramIndex}];`,
+      )
+      .join('\n')
+
+    return `  if (mode == ${modeIndex}) {\n${params}\n${mode.glsl}\n    return;\n  }`
+  }).join('\n')
+
+  return /* glsl */ `
+void applyCharacterMode(
+  int mode,
+  vec3 base,
+  vec3 pointer,
+  vec3 delta,
+  vec3 radial,
+  float distance,
+  float pointerFalloff,
+  float characterStrength,
+  float noiseX,
+  float noiseY,
+  float noiseZ,
+  float t,
+  float seed,
+  inout vec3 distorted
+) {
+${branches}
+}
+`
+}
+
+const distortionTargetChunk = /* glsl */ `
+uniform sampler2D uBasePosition;
+uniform sampler2D uBaseNormal;
+uniform float uTime;
+uniform float uSeed;
+uniform float uNoiseAmplitude;
+uniform float uNoiseFrequency;
+uniform float uExplodeAmplitude;
+uniform float uRotationAmplitude;
+uniform float uCharacterStrength;
+uniform float uStiffness;
+uniform float uDampingFactor;
+uniform float uTimeStep;
+uniform float uCharacterParams[${CHARACTER_PARAM_COUNT}];
+uniform float uIdleMix;
+uniform int uEmitterCount;
+uniform sampler2D uEmitters;
+uniform int uImpulseCount;
+uniform sampler2D uImpulses;
+
+${simplexNoiseChunk}
+
+${falloffChunk}
+
+vec3 rotateEulerXYZ(vec3 value, vec3 angles) {
+  float a = cos(angles.x);
+  float b = sin(angles.x);
+  float c = cos(angles.y);
+  float d = sin(angles.y);
+  float e = cos(angles.z);
+  float f = sin(angles.z);
+  float ae = a * e;
+  float af = a * f;
+  float be = b * e;
+  float bf = b * f;
+
+  mat3 rotation = mat3(
+    vec3(c * e, af + be * d, bf - ae * d),
+    vec3(-c * f, ae - bf * d, be + af * d),
+    vec3(d, -b * c, a * c)
+  );
+
+  return rotation * value;
+}
+
+${buildCharacterModeChunk()}
+
+vec3 computeDistortionTarget(vec3 base, vec3 normal, vec3 current) {
+  float t = uTime;
+  float seed = uSeed;
+  vec3 scaled = current * uNoiseFrequency;
+
+  float noiseX = snoise(vec3(scaled.x + seed * 0.17, scaled.y + t, scaled.z));
+  float noiseY = snoise(vec3(scaled.x, scaled.y + 23.713 + t, scaled.z + seed * 0.31));
+  float noiseZ = snoise(vec3(scaled.x + seed * 0.59, scaled.y + t, scaled.z + 51.219));
+
+  vec3 target = base;
+
+  for (int i = 0; i < uEmitterCount; i++) {
+    vec4 origin = texelFetch(uEmitters, ivec2(i, 0), 0);
+    vec4 params = texelFetch(uEmitters, ivec2(i, 1), 0);
+    vec3 pointer = origin.xyz;
+    float radius = origin.w;
+    float press = params.x;
+    int mode = int(params.y + 0.5);
+    vec3 delta = base - pointer;
+    float distance = length(delta);
+
+    if (distance > radius) {
+      continue;
+    }
+
+    float pointerFalloff = evaluateFalloff(distance, radius);
+    float pointerInfluence = uExplodeAmplitude * pointerFalloff;
+    float mixFactor = max(press, uIdleMix);
+
+    vec3 distorted = base + vec3(noiseX, noiseY, noiseZ) * normal * pointerInfluence * uNoiseAmplitude;
+
+    if (pointerInfluence > 0.0) {
+      float rotationFactor = distance * pointerInfluence * uRotationAmplitude;
+      distorted = rotateEulerXYZ(distorted, normal * rotationFactor);
+
+      float characterStrength = uCharacterStrength * pointerFalloff * press;
+      vec3 radial = delta / max(distance, 0.0001);
+
+      applyCharacterMode(
+        mode,
+        base,
+        pointer,
+        delta,
+        radial,
+        distance,
+        pointerFalloff,
+        characterStrength,
+        noiseX,
+        noiseY,
+        noiseZ,
+        t,
+        seed,
+        distorted
+      );
+    }
+
+    target += (distorted - base) * mixFactor;
+  }
+
+  return target;
+}
+
+vec3 computeImpulseVelocity(vec3 base) {
+  vec3 impulseVelocity = vec3(0.0);
+
+  for (int i = 0; i < uImpulseCount; i++) {
+    vec4 originRadius = texelFetch(uImpulses, ivec2(i, 0), 0);
+    vec4 params = texelFetch(uImpulses, ivec2(i, 1), 0);
+    vec3 origin = originRadius.xyz;
+    float radius = originRadius.w;
+    float strength = params.x;
+    float progress = params.y;
+    int mode = int(params.z + 0.5);
+    vec3 delta = base - origin;
+    float distance = length(delta);
+
+    if (distance > radius) {
+      continue;
+    }
+
+    float width = max(radius * 0.18, 0.02);
+    float ring = (distance - radius * progress) / width;
+    float fade = (1.0 - progress) * (1.0 - progress);
+    float shock = exp(-ring * ring) * fade * (1.0 - distance / radius) * strength * ${IMPULSE_ACCELERATION_SCALE.toFixed(1)} * uTimeStep;
+    vec3 direction = delta / max(distance, 0.0001);
+
+    if (mode == 1) {
+      impulseVelocity.x += delta.y * shock * 1.4;
+      impulseVelocity.z += shock * 0.3;
+    } else if (mode == 2) {
+      impulseVelocity += direction * shock * sin(distance * 20.0 - progress * 12.0);
+    } else if (mode == 3) {
+      impulseVelocity -= direction * shock;
+    } else if (mode == 4) {
+      impulseVelocity += vec3(direction.x * 0.3, -1.0, direction.z * 0.3) * shock;
+    } else {
+      impulseVelocity += direction * shock;
+    }
+  }
+
+  return impulseVelocity;
+}
+
+// Distortion and impulses act on the (possibly dented) rest pose.
+vec3 integrateVelocity(vec2 uv, vec3 current, vec3 velocity) {
+  vec3 base = texture2D(textureRest, uv).xyz;
+  vec3 normal = texture2D(uBaseNormal, uv).xyz;
+  vec3 target = computeDistortionTarget(base, normal, current);
+  return velocity + (target - current) * uStiffness * uTimeStep + computeImpulseVelocity(base);
+}
+`
+
+const positionShader = /* glsl */ `
+${distortionTargetChunk}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 current = texture2D(texturePosition, uv).xyz;
+  vec3 velocity = texture2D(textureVelocity, uv).xyz;
+
+  gl_FragColor = vec4(current + integrateVelocity(uv, current, velocity) * uTimeStep, 1.0);
+}
+`
+
+const velocityShader = /* glsl */ `
+${distortionTargetChunk}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 current = texture2D(texturePosition, uv).xyz;
+  vec3 velocity = texture2D(textureVelocity, uv).xyz;
+
+  gl_FragColor = vec4(integrateVelocity(uv, current, velocity) * uDampingFactor, 0.0);
+}
+`
+
+// Mirrors the plastic flow and healing at the end of the CPU step.
+const restShader = /* glsl */ `
+uniform sampler2D uBasePosition;
+uniform float uYieldDistance;
+uniform float uFlowStep;
+uniform float uHealStep;
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 rest = texture2D(textureRest, uv).xyz;
+  vec3 offset = texture2D(texturePosition, uv).xyz - rest;
+  float distance = length(offset);
+
+  if (uFlowStep > 0.0 && distance > uYieldDistance) {
+    rest += offset * (1.0 - uYieldDistance / distance) * uFlowStep;
+  }
+  rest += (texture2D(uBasePosition, uv).xyz - rest) * uHealStep;
+
+  gl_FragColor = vec4(rest, 1.0);
+}
+`
@@ -0,0 +1,179 @@
+import type { BufferAttribute, BufferGeometry } from 'three'
+
+import { groupCoincidentVertices } from './seams'
+import type { VertexBuffers } from './types'
+
+// Faces meeting at more than ~60° keep a hard edge, so caps stay crisp while
+// bevel segments blend.
+const CREASE_COS = 0.5
+
+export class NormalSolver {
+  private readonly normalAttribute: BufferAttribute
+  private readonly triangleVertices: Int32Array
+  private readonly faceNormals: Float32Array
+  private readonly triangleActive: Uint8Array
+  private readonly triangleWasActive: Uint8Array
+  private readonly vertexFaceOffsets: Int32Array
+  private readonly vertexFaces: Int32Array
+  // Rest normals the material shades with; the solvers may push along welded
+  // ones instead.
+  private readonly shadingNormalArray: Float32Array
+  private primed = false
+
+  constructor(
+    geometry: BufferGeometry,
+    buffers: VertexBuffers,
+    shadingNormalArray: Float32Array,
+  ) {
+    const { basePositionArray } = buffers
+    const vertexCount = basePositionArray.length / 3
+    this.shadingNormalArray = shadingNormalArray
+
+    this.normalAttribute = geometry.getAttribute('normal') as BufferAttribute
+
+    const index = geometry.getIndex()
+    const triangleCount = index ? index.count / 3 : vertexCount / 3
+    this.triangleVertices = new Int32Array(triangleCount * 3)
+    for (let corner = 0; corner < triangleCount * 3; corner += 1) {
+      this.triangleVertices[corner] = index ? index.getX(corner) : corner
+    }
+
+    this.faceNormals = new Float32Array(triangleCount * 3)
+    this.triangleActive = new Uint8Array(triangleCount)
+    this.triangleWasActive = new Uint8Array(triangleCount)
+
+    const { groupOf: vertexGroup, groupCount } =
+      groupCoincidentVertices(basePositionArray)
+
+    const groupCorners: number[][] = Array.from(
+      { length: groupCount },
+      () => [],
+    )
+    for (let corner = 0; corner < triangleCount * 3; corner += 1) {
+      groupCorners[vertexGroup[this.triangleVertices[corner]]].push(corner)
+    }
+
+    // Each vertex averages the faces around its welded position that lie on
+    // the same side of a crease, stored as a flat offset table.
+    const vertexFaceOffsets = new Int32Array(vertexCount + 1)
+    const vertexFaces: number[] = []
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      vertexFaceOffsets[vertex] = vertexFaces.length
+      const normalX = shadingNormalArray[vertex * 3]
+      const normalY = shadingNormalArray[vertex * 3 + 1]
+      const normalZ = shadingNormalArray[vertex * 3 + 2]
+
+      for (const corner of groupCorners[vertexGroup[vertex]]) {
+        const other = this.triangleVertices[corner]
+        const alignment =
+          normalX * shadingNormalArray[other * 3] +
+          normalY * shadingNormalArray[other * 3 + 1] +
+          normalZ * shadingNormalArray[other * 3 + 2]
+        if (alignment >= CREASE_COS) {
+          vertexFaces.push(Math.floor(corner / 3))
+        }
+      }
+    }
+    vertexFaceOffsets[vertexCount] = vertexFaces.length
+
+    this.vertexFaceOffsets = vertexFaceOffsets
+    this.vertexFaces = Int32Array.from(vertexFaces)
+  }
+
+  // Only faces with a corner moving faster than `velocityThreshold` (units/s)
+  // are rebuilt, plus one trailing pass after they come to rest.
+  update(buffers: VertexBuffers, velocityThreshold: number): void {
+    const { positionArray, velocityArray } = buffers
+    const { triangleVertices, faceNormals, triangleActive, triangleWasActive } =
+      this
+    const thresholdSquared = velocityThreshold * velocityThreshold
+    const triangleCount = triangleActive.length
+    let dirty = false
+
+    for (let triangle = 0; triangle < triangleCount; triangle += 1) {
+      let moving = !this.primed
+      for (let corner = 0; corner < 3 && !moving; corner += 1) {
+        const vertex = triangleVertices[triangle * 3 + corner] * 3
+        const speedSquared =
+          velocityArray[vertex] * velocityArray[vertex] +
+          velocityArray[vertex + 1] * velocityArray[vertex + 1] +
+          velocityArray[vertex + 2] * velocityArray[vertex + 2]
+        moving = speedSquared > thresholdSquared
+      }
+
+      const active = moving || triangleWasActive[triangle] === 1
+      triangleWasActive[triangle] = moving ? 1 : 0
+      triangleActive[triangle] = active ? 1 : 0
+      if (!active) {
+        continue
+      }
+      dirty = true
+
+      const a = triangleVertices[triangle * 3] * 3
+      const b = triangleVertices[triangle * 3 + 1] * 3
+      const c = triangleVertices[triangle * 3 + 2] * 3
+      const abX = positionArray[b] - positionArray[a]
+      const abY = positionArray[b + 1] - positionArray[a + 1]
+      const abZ = positionArray[b + 2] - positionArray[a + 2]
+      const acX = positionArray[c] - positionArray[a]
+      const acY = positionArray[c + 1] - positionArray[a + 1]
+      const acZ = positionArray[c + 2] - positionArray[a + 2]
+
+      // Left unnormalised so larger faces weigh more in the vertex average.
+      faceNormals[triangle * 3] = abY * acZ - abZ * acY
+      faceNormals[triangle * 3 + 1] = abZ * acX - abX * acZ
+      faceNormals[triangle * 3 + 2] = abX * acY - abY * acX
+    }
+    this.primed = true
+
+    if (!dirty) {
+      return
+    }
+
+    const normalArray = this.normalAttribute.array as Float32Array
+    const { vertexFaceOffsets, vertexFaces } = this
+    const vertexCount = vertexFaceOffsets.length - 1
+
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const start = vertexFaceOffsets[vertex]
+      const end = vertexFaceOffsets[vertex + 1]
+
+      let touched = false
+      for (let entry = start; entry < end && !touched; entry += 1) {
+        touched = triangleActive[vertexFaces[entry]] === 1
+      }
+      if (!touched) {
+        continue
+      }
+
+      let normalX = 0
+      let normalY = 0
+      let normalZ = 0
+      for (let entry = start; entry < end; entry += 1) {
+        const face = vertexFaces[entry] * 3
+        normalX += faceNormals[face]
+        normalY += faceNormals[face + 1]
+        normalZ += faceNormals[face + 2]
+      }
+
+      const length = Math.sqrt(
+        normalX * normalX + normalY * normalY + normalZ * normalZ,
+      )
+      if (length < 1e-12) {
+        continue
+      }
+
+      normalArray[vertex * 3] = normalX / length
+      normalArray[vertex * 3 + 1] = normalY / length
+      normalArray[vertex * 3 + 2] = normalZ / length
+    }
+
+    this.normalAttribute.needsUpdate = true
+  }
+
+  restore(): void {
+    const normalArray = this.normalAttribute.array as Float32Array
+    normalArray.set(this.shadingNormalArray)
+    this.normalAttribute.needsUpdate = true
+  }
+}
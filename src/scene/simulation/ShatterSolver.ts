@@ -0,0 +1,627 @@
+import type { BufferGeometry } from 'three'
+
+import type { ShatterSettings } from '../ElasticText'
+import type { SimulationFrame, VertexBuffers } from './types'
+
+const MAX_SHARDS = 400
+const REST_EPSILON = 0.002
+// Spin given to each shard when the text is dropped, as a share of `spin`.
+const DROP_SPIN = 0.15
+
+// World up and the ground plane in the mesh's local space; gravity pulls
+// against `up`.
+export type ShatterGround = {
+  upX: number
+  upY: number
+  upZ: number
+  // Local-space `dot(up, point)` of the ground plane.
+  height: number
+  collide: boolean
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function hashToUnit(value: number): number {
+  const hashed = Math.sin(value * 12.9898 + 78.233) * 43758.5453123
+  return hashed - Math.floor(hashed)
+}
+
+export class ShatterSolver {
+  readonly shardCount: number
+
+  private readonly vertexShard: Int32Array
+  private readonly localOffsets: Float32Array
+  private readonly restCentroids: Float32Array
+  private readonly offsets: Float32Array
+  private readonly velocities: Float32Array
+  private readonly rotations: Float32Array
+  private readonly angularVelocities: Float32Array
+  private readonly brokenAges: Float32Array
+  private readonly broken: Uint8Array
+  // Bounding radius about the centroid, for a sphere-like moment of inertia.
+  private readonly shardRadii: Float32Array
+  // Lowest vertex of each shard along `up` and its offset from the centroid,
+  // refreshed by every vertex write.
+  private readonly lowestHeights: Float32Array
+  private readonly lowestOffsets: Float32Array
+  private dropped = false
+  private rebuilding = false
+
+  // With `groups` (one id per vertex, e.g. the glyph index) every group
+  // becomes one rigid shard instead of a Voronoi cell.
+  constructor(
+    geometry: BufferGeometry,
+    buffers: VertexBuffers,
+    shardSize: number,
+    seed: number,
+    groups: ArrayLike<number> | null = null,
+  ) {
+    const basePositionArray = buffers.basePositionArray
+    const vertexCount = basePositionArray.length / 3
+
+    this.vertexShard = new Int32Array(vertexCount).fill(-1)
+    this.shardCount = groups
+      ? this.assignGroups(groups, vertexCount)
+      : this.assignVoronoiCells(geometry, buffers, shardSize, seed)
+
+    const shardCount = this.shardCount
+    this.restCentroids = new Float32Array(shardCount * 3)
+    const shardVertexCounts = new Uint32Array(shardCount)
+
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const shard = this.vertexShard[vertex]
+      if (shard === -1) {
+        continue
+      }
+
+      this.restCentroids[shard * 3] += basePositionArray[vertex * 3]
+      this.restCentroids[shard * 3 + 1] += basePositionArray[vertex * 3 + 1]
+      this.restCentroids[shard * 3 + 2] += basePositionArray[vertex * 3 + 2]
+      shardVertexCounts[shard] += 1
+    }
+
+    for (let shard = 0; shard < shardCount; shard += 1) {
+      const count = Math.max(shardVertexCounts[shard], 1)
+      this.restCentroids[shard * 3] /= count
+      this.restCentroids[shard * 3 + 1] /= count
+      this.restCentroids[shard * 3 + 2] /= count
+    }
+
+    this.shardRadii = new Float32Array(shardCount)
+    this.localOffsets = new Float32Array(vertexCount * 3)
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const shard = Math.max(this.vertexShard[vertex], 0)
+      for (let axis = 0; axis < 3; axis += 1) {
+        this.localOffsets[vertex * 3 + axis] =
+          basePositionArray[vertex * 3 + axis] -
+          (shardCount > 0 ? this.restCentroids[shard * 3 + axis] : 0)
+      }
+
+      if (shardCount > 0) {
+        this.shardRadii[shard] = Math.max(
+          this.shardRadii[shard],
+          Math.hypot(
+            this.localOffsets[vertex * 3],
+            this.localOffsets[vertex * 3 + 1],
+            this.localOffsets[vertex * 3 + 2],
+          ),
+        )
+      }
+    }
+
+    this.offsets = new Float32Array(shardCount * 3)
+    this.velocities = new Float32Array(shardCount * 3)
+    this.rotations = new Float32Array(shardCount * 4)
+    this.angularVelocities = new Float32Array(shardCount * 3)
+    this.brokenAges = new Float32Array(shardCount)
+    this.broken = new Uint8Array(shardCount)
+    this.lowestHeights = new Float32Array(shardCount)
+    this.lowestOffsets = new Float32Array(shardCount * 3)
+
+    for (let shard = 0; shard < shardCount; shard += 1) {
+      this.rotations[shard * 4 + 3] = 1
+    }
+  }
+
+  breakShard(
+    shard: number,
+    originX: number,
+    originY: number,
+    originZ: number,
+    strength: number,
+    settings: ShatterSettings,
+    seed: number,
+  ): void {
+    const base = shard * 3
+    const dx = this.restCentroids[base] + this.offsets[base] - originX
+    const dy = this.restCentroids[base + 1] + this.offsets[base + 1] - originY
+    const dz = this.restCentroids[base + 2] + this.offsets[base + 2] - originZ
+    const inverseLength = 1 / Math.max(Math.sqrt(dx * dx + dy * dy + dz * dz), 0.0001)
+    const jitter = seed * 0.173 + shard * 1.618
+
+    const burst = settings.burstStrength * strength
+    this.velocities[base] += (dx * inverseLength + (hashToUnit(jitter + 1.1) - 0.5) * 0.6) * burst
+    this.velocities[base + 1] += (dy * inverseLength + hashToUnit(jitter + 2.3) * 0.5) * burst
+    this.velocities[base + 2] += (dz * inverseLength + 0.65 + (hashToUnit(jitter + 3.7) - 0.5) * 0.6) * burst
+
+    const spin = settings.spin * strength
+    this.angularVelocities[base] += (hashToUnit(jitter + 4.9) * 2 - 1) * spin
+    this.angularVelocities[base + 1] += (hashToUnit(jitter + 6.1) * 2 - 1) * spin
+    this.angularVelocities[base + 2] += (hashToUnit(jitter + 7.3) * 2 - 1) * spin
+
+    this.broken[shard] = 1
+    this.brokenAges[shard] = 0
+  }
+
+  // Lets a shard fall under gravity with a slight tumble and no burst.
+  private releaseShard(
+    shard: number,
+    settings: ShatterSettings,
+    seed: number,
+  ): void {
+    const base = shard * 3
+    const jitter = seed * 0.173 + shard * 1.618
+    const spin = settings.spin * DROP_SPIN
+
+    this.angularVelocities[base] += (hashToUnit(jitter + 8.5) * 2 - 1) * spin
+    this.angularVelocities[base + 1] += (hashToUnit(jitter + 9.7) * 2 - 1) * spin
+    this.angularVelocities[base + 2] += (hashToUnit(jitter + 10.9) * 2 - 1) * spin
+
+    this.broken[shard] = 1
+    this.brokenAges[shard] = 0
+  }
+
+  // Pushes shards out of the ground and applies a restitution plus Coulomb
+  // friction impulse at their lowest vertex, treating each shard as a unit
+  // mass with the inertia of a solid sphere of its radius. Returns whether
+  // any shard moved.
+  private collideWithGround(
+    ground: ShatterGround,
+    settings: ShatterSettings,
+    dt: number,
+  ): boolean {
+    const { upX, upY, upZ } = ground
+    const restitution = clamp(settings.restitution, 0, 1)
+    const friction = Math.max(settings.friction, 0)
+    // Slower impacts than one step of gravity come to rest instead of bouncing.
+    const restingSpeed = settings.gravity * dt * 2
+    let moved = false
+
+    for (let shard = 0; shard < this.shardCount; shard += 1) {
+      const depth = ground.height - this.lowestHeights[shard]
+      if (!this.broken[shard] || depth <= 0) {
+        continue
+      }
+
+      const base = shard * 3
+      this.offsets[base] += upX * depth
+      this.offsets[base + 1] += upY * depth
+      this.offsets[base + 2] += upZ * depth
+      moved = true
+
+      const rx = this.lowestOffsets[base]
+      const ry = this.lowestOffsets[base + 1]
+      const rz = this.lowestOffsets[base + 2]
+      const wx = this.angularVelocities[base]
+      const wy = this.angularVelocities[base + 1]
+      const wz = this.angularVelocities[base + 2]
+      const contactX = this.velocities[base] + (wy * rz - wz * ry)
+      const contactY = this.velocities[base + 1] + (wz * rx - wx * rz)
+      const contactZ = this.velocities[base + 2] + (wx * ry - wy * rx)
+      const normalSpeed = contactX * upX + contactY * upY + contactZ * upZ
+      if (normalSpeed >= 0) {
+        continue
+      }
+
+      const radius = Math.max(this.shardRadii[shard], 0.01)
+      const inverseInertia = 1 / (0.4 * radius * radius)
+      const bounce = -normalSpeed > restingSpeed ? restitution : 0
+
+      // r x n
+      const rnX = ry * upZ - rz * upY
+      const rnY = rz * upX - rx * upZ
+      const rnZ = rx * upY - ry * upX
+      const normalMass =
+        1 + (rnX * rnX + rnY * rnY + rnZ * rnZ) * inverseInertia
+      const normalImpulse = (-(1 + bounce) * normalSpeed) / normalMass
+
+      let impulseX = upX * normalImpulse
+      let impulseY = upY * normalImpulse
+      let impulseZ = upZ * normalImpulse
+
+      const slideX = contactX - upX * normalSpeed
+      const slideY = contactY - upY * normalSpeed
+      const slideZ = contactZ - upZ * normalSpeed
+      const slideSpeed = Math.hypot(slideX, slideY, slideZ)
+      if (slideSpeed > 1e-6) {
+        const tangentX = slideX / slideSpeed
+        const tangentY = slideY / slideSpeed
+        const tangentZ = slideZ / slideSpeed
+        const rtX = ry * tangentZ - rz * tangentY
+        const rtY = rz * tangentX - rx * tangentZ
+        const rtZ = rx * tangentY - ry * tangentX
+        const tangentMass =
+          1 + (rtX * rtX + rtY * rtY + rtZ * rtZ) * inverseInertia
+        const frictionImpulse = Math.min(
+          slideSpeed / tangentMass,
+          friction * normalImpulse,
+        )
+        impulseX -= tangentX * frictionImpulse
+        impulseY -= tangentY * frictionImpulse
+        impulseZ -= tangentZ * frictionImpulse
+      }
+
+      this.velocities[base] += impulseX
+      this.velocities[base + 1] += impulseY
+      this.velocities[base + 2] += impulseZ
+      this.angularVelocities[base] += (ry * impulseZ - rz * impulseY) * inverseInertia
+      this.angularVelocities[base + 1] += (rz * impulseX - rx * impulseZ) * inverseInertia
+      this.angularVelocities[base + 2] += (rx * impulseY - ry * impulseX) * inverseInertia
+    }
+
+    return moved
+  }
+
+  // Runs the frame's fixed-size substeps, like the vertex solvers, so shard
+  // motion and bounces don't depend on the frame rate.
+  step(
+    buffers: VertexBuffers,
+    frame: SimulationFrame,
+    settings: ShatterSettings,
+    ground: ShatterGround,
+  ): void {
+    for (let substep = 0; substep < frame.substeps; substep += 1) {
+      this.advance(buffers, frame, settings, ground, frame.timeStep)
+    }
+  }
+
+  private advance(
+    buffers: VertexBuffers,
+    frame: SimulationFrame,
+    settings: ShatterSettings,
+    ground: ShatterGround,
+    dt: number,
+  ): void {
+    const drag = Math.exp(-settings.drag * dt)
+    const reassembleAlpha = 1 - Math.exp(-settings.reassembleSpring * dt)
+
+    // Dropping releases every shard; lifting the drop pulls them all back
+    // regardless of the reassembly settings.
+    if (settings.dropped) {
+      this.dropped = true
+      this.rebuilding = false
+    } else if (this.dropped) {
+      this.dropped = false
+      this.rebuilding = true
+    }
+
+    let brokenCount = 0
+    for (let shard = 0; shard < this.shardCount; shard += 1) {
+      const base = shard * 3
+      const quaternion = shard * 4
+
+      if (this.dropped && !this.broken[shard]) {
+        this.releaseShard(shard, settings, frame.seed)
+      }
+
+      for (const impulse of frame.impulses) {
+        if (this.broken[shard]) {
+          break
+        }
+
+        const dx = this.restCentroids[base] - impulse.x
+        const dy = this.restCentroids[base + 1] - impulse.y
+        const dz = this.restCentroids[base + 2] - impulse.z
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+
+        // Shards break as the shock front passes over them.
+        if (distance <= impulse.radius * impulse.progress) {
+          this.breakShard(
+            shard,
+            impulse.x,
+            impulse.y,
+            impulse.z,
+            impulse.strength * (1 - distance / Math.max(impulse.radius, 0.0001)),
+            settings,
+            frame.seed,
+          )
+        }
+      }
+
+      for (const emitter of frame.emitters) {
+        if (this.broken[shard]) {
+          break
+        }
+
+        if (emitter.press <= 0.05) {
+          continue
+        }
+
+        const radius = Math.max(emitter.radius, 0.0001)
+        const dx = this.restCentroids[base] + this.offsets[base] - emitter.x
+        const dy = this.restCentroids[base + 1] + this.offsets[base + 1] - emitter.y
+        const dz = this.restCentroids[base + 2] + this.offsets[base + 2] - emitter.z
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+
+        if (distance <= radius) {
+          this.breakShard(
+            shard,
+            emitter.x,
+            emitter.y,
+            emitter.z,
+            emitter.press * (1 - distance / radius),
+            settings,
+            frame.seed,
+          )
+        }
+      }
+
+      if (!this.broken[shard]) {
+        continue
+      }
+
+      brokenCount += 1
+      this.brokenAges[shard] += dt
+      const reassembling =
+        !this.dropped &&
+        (this.rebuilding ||
+          (settings.reassemble &&
+            this.brokenAges[shard] >= settings.reassembleDelay))
+
+      if (reassembling) {
+        for (let axis = 0; axis < 3; axis += 1) {
+          this.velocities[base + axis] -=
+            this.offsets[base + axis] * settings.reassembleSpring * dt
+        }
+      } else {
+        this.velocities[base] -= ground.upX * settings.gravity * dt
+        this.velocities[base + 1] -= ground.upY * settings.gravity * dt
+        this.velocities[base + 2] -= ground.upZ * settings.gravity * dt
+      }
+
+      const linearDamping = reassembling ? drag * (1 - reassembleAlpha * 0.5) : drag
+      const angularDamping = reassembling ? drag * (1 - reassembleAlpha) : drag
+      for (let axis = 0; axis < 3; axis += 1) {
+        this.velocities[base + axis] *= linearDamping
+        this.offsets[base + axis] += this.velocities[base + axis] * dt
+        this.angularVelocities[base + axis] *= angularDamping
+      }
+
+      this.integrateRotation(quaternion, base, dt)
+
+      if (reassembling) {
+        this.relaxRotation(quaternion, reassembleAlpha)
+
+        const offsetLength = Math.hypot(
+          this.offsets[base],
+          this.offsets[base + 1],
+          this.offsets[base + 2],
+        )
+        const speed = Math.hypot(
+          this.velocities[base],
+          this.velocities[base + 1],
+          this.velocities[base + 2],
+        )
+        if (offsetLength < REST_EPSILON && speed < REST_EPSILON * 10) {
+          this.restShard(shard)
+        }
+      }
+    }
+
+    if (brokenCount === 0) {
+      this.rebuilding = false
+    }
+
+    this.writeVertices(buffers, ground)
+
+    // Reassembling shards pass through the ground on their way home.
+    if (
+      ground.collide &&
+      !this.rebuilding &&
+      this.collideWithGround(ground, settings, dt)
+    ) {
+      this.writeVertices(buffers, ground)
+    }
+  }
+
+  private assignGroups(groups: ArrayLike<number>, vertexCount: number): number {
+    const shardOfGroup = new Map<number, number>()
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const group = Math.round(groups[vertex] ?? 0)
+      let shard = shardOfGroup.get(group)
+      if (shard === undefined) {
+        shard = shardOfGroup.size
+        shardOfGroup.set(group, shard)
+      }
+      this.vertexShard[vertex] = shard
+    }
+
+    return shardOfGroup.size
+  }
+
+  private assignVoronoiCells(
+    geometry: BufferGeometry,
+    buffers: VertexBuffers,
+    shardSize: number,
+    seed: number,
+  ): number {
+    const basePositionArray = buffers.basePositionArray
+    const vertexCount = basePositionArray.length / 3
+
+    geometry.computeBoundingBox()
+    const bounds = geometry.boundingBox
+    const minX = bounds?.min.x ?? -1
+    const minY = bounds?.min.y ?? -1
+    const width = Math.max((bounds?.max.x ?? 1) - minX, 0.001)
+    const height = Math.max((bounds?.max.y ?? 1) - minY, 0.001)
+    const cellSize = Math.max(shardSize, 0.01)
+
+    // Voronoi sites scattered over the XY footprint: every triangle joins the
+    // site nearest its centroid, so each shard cuts through the full extrusion.
+    const siteCount = clamp(
+      Math.round((width * height) / (cellSize * cellSize)),
+      1,
+      MAX_SHARDS,
+    )
+    const sites = new Float32Array(siteCount * 2)
+    for (let site = 0; site < siteCount; site += 1) {
+      sites[site * 2] = minX + hashToUnit(seed * 0.131 + site * 3.71) * width
+      sites[site * 2 + 1] =
+        minY + hashToUnit(seed * 0.277 + site * 7.13) * height
+    }
+
+    const index = geometry.getIndex()
+    const triangleCount = index ? index.count / 3 : vertexCount / 3
+    const vertexAt = (corner: number) => (index ? index.getX(corner) : corner)
+
+    const shardOfSite = new Int32Array(siteCount).fill(-1)
+    let shardCount = 0
+
+    for (let triangle = 0; triangle < triangleCount; triangle += 1) {
+      let centroidX = 0
+      let centroidY = 0
+      for (let corner = 0; corner < 3; corner += 1) {
+        const vertex = vertexAt(triangle * 3 + corner)
+        centroidX += basePositionArray[vertex * 3]
+        centroidY += basePositionArray[vertex * 3 + 1]
+      }
+      centroidX /= 3
+      centroidY /= 3
+
+      let nearestSite = 0
+      let nearestDistance = Infinity
+      for (let site = 0; site < siteCount; site += 1) {
+        const dx = centroidX - sites[site * 2]
+        const dy = centroidY - sites[site * 2 + 1]
+        const distance = dx * dx + dy * dy
+        if (distance < nearestDistance) {
+          nearestDistance = distance
+          nearestSite = site
+        }
+      }
+
+      if (shardOfSite[nearestSite] === -1) {
+        shardOfSite[nearestSite] = shardCount
+        shardCount += 1
+      }
+
+      for (let corner = 0; corner < 3; corner += 1) {
+        const vertex = vertexAt(triangle * 3 + corner)
+        if (this.vertexShard[vertex] === -1) {
+          this.vertexShard[vertex] = shardOfSite[nearestSite]
+        }
+      }
+    }
+
+    return shardCount
+  }
+
+  private integrateRotation(quaternion: number, base: number, dt: number): void {
+    const rotations = this.rotations
+    const wx = this.angularVelocities[base] * dt * 0.5
+    const wy = this.angularVelocities[base + 1] * dt * 0.5
+    const wz = this.angularVelocities[base + 2] * dt * 0.5
+    const qx = rotations[quaternion]
+    const qy = rotations[quaternion + 1]
+    const qz = rotations[quaternion + 2]
+    const qw = rotations[quaternion + 3]
+
+    const nextX = qx + wx * qw + wy * qz - wz * qy
+    const nextY = qy + wy * qw + wz * qx - wx * qz
+    const nextZ = qz + wz * qw + wx * qy - wy * qx
+    const nextW = qw - wx * qx - wy * qy - wz * qz
+    const inverseLength = 1 / Math.max(Math.hypot(nextX, nextY, nextZ, nextW), 0.000001)
+
+    rotations[quaternion] = nextX * inverseLength
+    rotations[quaternion + 1] = nextY * inverseLength
+    rotations[quaternion + 2] = nextZ * inverseLength
+    rotations[quaternion + 3] = nextW * inverseLength
+  }
+
+  private relaxRotation(quaternion: number, alpha: number): void {
+    const rotations = this.rotations
+    const sign = rotations[quaternion + 3] < 0 ? -1 : 1
+    const x = rotations[quaternion] * (1 - alpha)
+    const y = rotations[quaternion + 1] * (1 - alpha)
+    const z = rotations[quaternion + 2] * (1 - alpha)
+    const w = rotations[quaternion + 3] + (sign - rotations[quaternion + 3]) * alpha
+    const inverseLength = 1 / Math.max(Math.hypot(x, y, z, w), 0.000001)
+
+    rotations[quaternion] = x * inverseLength
+    rotations[quaternion + 1] = y * inverseLength
+    rotations[quaternion + 2] = z * inverseLength
+    rotations[quaternion + 3] = w * inverseLength
+  }
+
+  private restShard(shard: number): void {
+    const base = shard * 3
+    const quaternion = shard * 4
+
+    for (let axis = 0; axis < 3; axis += 1) {
+      this.offsets[base + axis] = 0
+      this.velocities[base + axis] = 0
+      this.angularVelocities[base + axis] = 0
+    }
+    this.rotations[quaternion] = 0
+    this.rotations[quaternion + 1] = 0
+    this.rotations[quaternion + 2] = 0
+    this.rotations[quaternion + 3] = 1
+    this.broken[shard] = 0
+    this.brokenAges[shard] = 0
+  }
+
+  private writeVertices(buffers: VertexBuffers, ground: ShatterGround): void {
+    const { positionArray, velocityArray } = buffers
+    const vertexCount = positionArray.length / 3
+    this.lowestHeights.fill(Infinity)
+
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const shard = this.vertexShard[vertex]
+      if (shard === -1) {
+        continue
+      }
+
+      const i = vertex * 3
+      const base = shard * 3
+      const quaternion = shard * 4
+      const qx = this.rotations[quaternion]
+      const qy = this.rotations[quaternion + 1]
+      const qz = this.rotations[quaternion + 2]
+      const qw = this.rotations[quaternion + 3]
+      const vx = this.localOffsets[i]
+      const vy = this.localOffsets[i + 1]
+      const vz = this.localOffsets[i + 2]
+
+      // v' = v + 2w(q x v) + 2q x (q x v)
+      const tx = 2 * (qy * vz - qz * vy)
+      const ty = 2 * (qz * vx - qx * vz)
+      const tz = 2 * (qx * vy - qy * vx)
+      const rotatedX = vx + qw * tx + (qy * tz - qz * ty)
+      const rotatedY = vy + qw * ty + (qz * tx - qx * tz)
+      const rotatedZ = vz + qw * tz + (qx * ty - qy * tx)
+
+      positionArray[i] = this.restCentroids[base] + this.offsets[base] + rotatedX
+      positionArray[i + 1] =
+        this.restCentroids[base + 1] + this.offsets[base + 1] + rotatedY
+      positionArray[i + 2] =
+        this.restCentroids[base + 2] + this.offsets[base + 2] + rotatedZ
+
+      const height =
+        positionArray[i] * ground.upX +
+        positionArray[i + 1] * ground.upY +
+        positionArray[i + 2] * ground.upZ
+      if (height < this.lowestHeights[shard]) {
+        this.lowestHeights[shard] = height
+        this.lowestOffsets[base] = rotatedX
+        this.lowestOffsets[base + 1] = rotatedY
+        this.lowestOffsets[base + 2] = rotatedZ
+      }
+
+      velocityArray[i] = this.velocities[base]
+      velocityArray[i + 1] = this.velocities[base + 1]
+      velocityArray[i + 2] = this.velocities[base + 2]
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import type { NoiseFunction3D } from 'simplex-noise'
+import type { BufferGeometry } from 'three'
+
+import type { SoftBodySettings } from '../ElasticText'
+import { stepCpuSimulation } from './cpuSolver'
+import { groupCoincidentVertices } from './seams'
+import type { SimulationFrame, VertexBuffers } from './types'
+
+// Torn seam corners push along different normals and stay separate particles.
+const NORMAL_PRECISION = 1e3
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Share of the error to undo per pass so `iterations` passes undo `stiffness`
+// of it in total.
+function getPassStiffness(stiffness: number, iterations: number): number {
+  return 1 - Math.pow(1 - clamp(stiffness, 0, 1), 1 / iterations)
+}
+
+// Position-based dynamics on top of the inline solver. Every substep the
+// springs, emitters and impulses move the vertices as usual; the moved
+// positions are then projected back onto edge-length (and optionally volume)
+// constraints, and the correction is folded into the velocities, so a hit
+// spreads through the glyph instead of moving vertices one by one.
+export class SoftBodySolver {
+  readonly particleCount: number
+
+  // Vertex the particle reads its position from, and every vertex it writes.
+  private readonly particleVertex: Int32Array
+  private readonly memberOffsets: Int32Array
+  private readonly members: Int32Array
+  private readonly edgeA: Int32Array
+  private readonly edgeB: Int32Array
+  private readonly restLengths: Float32Array
+  // Surface triangles as particle triples, for the volume constraint.
+  private readonly triangles: Int32Array
+  private readonly particleGroup: Int32Array
+  private readonly groupCount: number
+  private readonly restVolumes: Float64Array
+  private readonly volumes: Float64Array
+  private readonly volumeWeights: Float64Array
+  private readonly positions: Float32Array
+  private readonly predicted: Float32Array
+  private readonly gradients: Float32Array
+
+  // `surfaceCornerCount` leaves out the inner walls appended to the index,
+  // which would otherwise stitch torn seams back together. With `groups` (one
+  // id per vertex, e.g. the glyph index) each group keeps its own volume.
+  constructor(
+    geometry: BufferGeometry,
+    buffers: VertexBuffers,
+    surfaceCornerCount: number,
+    groups: ArrayLike<number> | null = null,
+  ) {
+    const { basePositionArray, baseNormalArray } = buffers
+    const vertexCount = basePositionArray.length / 3
+    const { groupOf } = groupCoincidentVertices(basePositionArray)
+
+    const particleKeys = new Map<string, number>()
+    const vertexParticle = new Int32Array(vertexCount)
+    const representatives: number[] = []
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const key = `${groupOf[vertex]}:${Math.round(
+        baseNormalArray[vertex * 3] * NORMAL_PRECISION,
+      )},${Math.round(
+        baseNormalArray[vertex * 3 + 1] * NORMAL_PRECISION,
+      )},${Math.round(baseNormalArray[vertex * 3 + 2] * NORMAL_PRECISION)}`
+      let particle = particleKeys.get(key)
+      if (particle === undefined) {
+        particle = representatives.length
+        particleKeys.set(key, particle)
+        representatives.push(vertex)
+      }
+      vertexParticle[vertex] = particle
+    }
+
+    const particleCount = representatives.length
+    this.particleCount = particleCount
+    this.particleVertex = Int32Array.from(representatives)
+
+    this.memberOffsets = new Int32Array(particleCount + 1)
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      this.memberOffsets[vertexParticle[vertex] + 1] += 1
+    }
+    for (let particle = 0; particle < particleCount; particle += 1) {
+      this.memberOffsets[particle + 1] += this.memberOffsets[particle]
+    }
+    this.members = new Int32Array(vertexCount)
+    const memberFill = this.memberOffsets.slice(0, particleCount)
+    for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+      const particle = vertexParticle[vertex]
+      this.members[memberFill[particle]] = vertex
+      memberFill[particle] += 1
+    }
+
+    const groupIds = new Map<number, number>()
+    this.particleGroup = new Int32Array(particleCount)
+    for (let particle = 0; particle < particleCount; particle += 1) {
+      const id = groups
+        ? Math.round(groups[this.particleVertex[particle]] ?? 0)
+        : 0
+      let group = groupIds.get(id)
+      if (group === undefined) {
+        group = groupIds.size
+        groupIds.set(id, group)
+      }
+      this.particleGroup[particle] = group
+    }
+    this.groupCount = groupIds.size
+
+    const index = geometry.getIndex()
+    const triangleCount = Math.floor(surfaceCornerCount / 3)
+    const vertexAt = (corner: number) => (index ? index.getX(corner) : corner)
+    const edges = new Set<number>()
+    const edgeA: number[] = []
+    const edgeB: number[] = []
+    const triangles: number[] = []
+    for (let triangle = 0; triangle < triangleCount; triangle += 1) {
+      const a = vertexParticle[vertexAt(triangle * 3)]
+      const b = vertexParticle[vertexAt(triangle * 3 + 1)]
+      const c = vertexParticle[vertexAt(triangle * 3 + 2)]
+      if (a === b || b === c || c === a) {
+        continue
+      }
+      triangles.push(a, b, c)
+
+      for (const [start, end] of [
+        [a, b],
+        [b, c],
+        [c, a],
+      ]) {
+        const low = Math.min(start, end)
+        const high = Math.max(start, end)
+        const key = low * particleCount + high
+        if (!edges.has(key)) {
+          edges.add(key)
+          edgeA.push(low)
+          edgeB.push(high)
+        }
+      }
+    }
+
+    this.edgeA = Int32Array.from(edgeA)
+    this.edgeB = Int32Array.from(edgeB)
+    this.restLengths = new Float32Array(edgeA.length)
+    this.triangles = Int32Array.from(triangles)
+    this.restVolumes = new Float64Array(this.groupCount)
+    this.volumes = new Float64Array(this.groupCount)
+    this.volumeWeights = new Float64Array(this.groupCount)
+    this.positions = new Float32Array(particleCount * 3)
+    this.predicted = new Float32Array(particleCount * 3)
+    this.gradients = new Float32Array(particleCount * 3)
+  }
+
+  step(
+    buffers: VertexBuffers,
+    frame: SimulationFrame,
+    settings: SoftBodySettings,
+    noise3d: NoiseFunction3D,
+  ): void {
+    const { substeps, timeStep } = frame
+    const iterations = Math.max(Math.round(settings.iterations), 1)
+    const edgeStiffness = getPassStiffness(settings.stiffness, iterations)
+    const volumeStiffness = settings.preserveVolume
+      ? getPassStiffness(settings.volumeStiffness, iterations)
+      : 0
+    // The frame's heal fraction, split evenly over its substeps.
+    const healRemaining = 1 - clamp(frame.plasticity.heal, 0, 1)
+    const heal = 1 - Math.pow(healRemaining, 1 / Math.max(substeps, 1))
+
+    // Plastic flow dents the rest pose, so the constraints follow it.
+    this.gather(buffers.restPositionArray)
+    this.measureRestShape()
+
+    for (let substep = 0; substep < substeps; substep += 1) {
+      stepCpuSimulation(
+        buffers,
+        {
+          ...frame,
+          time:
+            frame.time + substep * timeStep * frame.distortion.noiseSpeed,
+          substeps: 1,
+          plasticity: { ...frame.plasticity, heal },
+        },
+        noise3d,
+      )
+
+      this.gather(buffers.positionArray)
+      this.predicted.set(this.positions)
+      for (let iteration = 0; iteration < iterations; iteration += 1) {
+        this.projectEdges(edgeStiffness)
+        if (volumeStiffness > 0) {
+          this.projectVolumes(volumeStiffness)
+        }
+      }
+      this.scatter(buffers, timeStep)
+    }
+  }
+
+  private gather(source: Float32Array): void {
+    const { positions, particleVertex } = this
+    for (let particle = 0; particle < this.particleCount; particle += 1) {
+      const vertex = particleVertex[particle] * 3
+      positions[particle * 3] = source[vertex]
+      positions[particle * 3 + 1] = source[vertex + 1]
+      positions[particle * 3 + 2] = source[vertex + 2]
+    }
+  }
+
+  private measureRestShape(): void {
+    const { positions, edgeA, edgeB, restLengths } = this
+    for (let edge = 0; edge < restLengths.length; edge += 1) {
+      const a = edgeA[edge] * 3
+      const b = edgeB[edge] * 3
+      restLengths[edge] = Math.hypot(
+        positions[b] - positions[a],
+        positions[b + 1] - positions[a + 1],
+        positions[b + 2] - positions[a + 2],
+      )
+    }
+
+    this.measureVolumes(false)
+    this.restVolumes.set(this.volumes)
+  }
+
+  private projectEdges(stiffness: number): void {
+    const { positions, edgeA, edgeB, restLengths } = this
+    for (let edge = 0; edge < restLengths.length; edge += 1) {
+      const a = edgeA[edge] * 3
+      const b = edgeB[edge] * 3
+      const dx = positions[b] - positions[a]
+      const dy = positions[b + 1] - positions[a + 1]
+      const dz = positions[b + 2] - positions[a + 2]
+      const length = Math.sqrt(dx * dx + dy * dy + dz * dz)
+      if (length < 1e-9) {
+        continue
+      }
+
+      // Both ends carry the same mass and move half the error each.
+      const correction =
+        ((length - restLengths[edge]) / length) * 0.5 * stiffness
+      positions[a] += dx * correction
+      positions[a + 1] += dy * correction
+      positions[a + 2] += dz * correction
+      positions[b] -= dx * correction
+      positions[b + 1] -= dy * correction
+      positions[b + 2] -= dz * correction
+    }
+  }
+
+  // Signed volume of every group's surface, plus each particle's gradient of
+  // it when `withGradients` is set.
+  private measureVolumes(withGradients: boolean): void {
+    const { positions, triangles, particleGroup, volumes, gradients } = this
+    volumes.fill(0)
+    if (withGradients) {
+      gradients.fill(0)
+    }
+
+    for (let corner = 0; corner < triangles.length; corner += 3) {
+      const a = triangles[corner] * 3
+      const b = triangles[corner + 1] * 3
+      const c = triangles[corner + 2] * 3
+      const ax = positions[a]
+      const ay = positions[a + 1]
+      const az = positions[a + 2]
+      const bx = positions[b]
+      const by = positions[b + 1]
+      const bz = positions[b + 2]
+      const cx = positions[c]
+      const cy = positions[c + 1]
+      const cz = positions[c + 2]
+
+      // b × c / 6 is the gradient at a, and likewise around the triangle.
+      const bcX = (by * cz - bz * cy) / 6
+      const bcY = (bz * cx - bx * cz) / 6
+      const bcZ = (bx * cy - by * cx) / 6
+      volumes[particleGroup[triangles[corner]]] +=
+        ax * bcX + ay * bcY + az * bcZ
+      if (!withGradients) {
+        continue
+      }
+
+      gradients[a] += bcX
+      gradients[a + 1] += bcY
+      gradients[a + 2] += bcZ
+      gradients[b] += (cy * az - cz * ay) / 6
+      gradients[b + 1] += (cz * ax - cx * az) / 6
+      gradients[b + 2] += (cx * ay - cy * ax) / 6
+      gradients[c] += (ay * bz - az * by) / 6
+      gradients[c + 1] += (az * bx - ax * bz) / 6
+      gradients[c + 2] += (ax * by - ay * bx) / 6
+    }
+  }
+
+  private projectVolumes(stiffness: number): void {
+    const { positions, gradients, particleGroup, volumes, volumeWeights } =
+      this
+    this.measureVolumes(true)
+
+    volumeWeights.fill(0)
+    for (let particle = 0; particle < this.particleCount; particle += 1) {
+      const offset = particle * 3
+      volumeWeights[particleGroup[particle]] +=
+        gradients[offset] * gradients[offset] +
+        gradients[offset + 1] * gradients[offset + 1] +
+        gradients[offset + 2] * gradients[offset + 2]
+    }
+    for (let group = 0; group < this.groupCount; group += 1) {
+      volumeWeights[group] =
+        volumeWeights[group] > 1e-12
+          ? ((this.restVolumes[group] - volumes[group]) /
+              volumeWeights[group]) *
+            stiffness
+          : 0
+    }
+
+    for (let particle = 0; particle < this.particleCount; particle += 1) {
+      const offset = particle * 3
+      const scale = volumeWeights[particleGroup[particle]]
+      positions[offset] += gradients[offset] * scale
+      positions[offset + 1] += gradients[offset + 1] * scale
+      positions[offset + 2] += gradients[offset + 2] * scale
+    }
+  }
+
+  // Moves every vertex of a particle by its correction and adds the matching
+  // velocity.
+  private scatter(buffers: VertexBuffers, timeStep: number): void {
+    const { positionArray, velocityArray } = buffers
+    const { positions, predicted, memberOffsets, members } = this
+    const inverseTimeStep = 1 / Math.max(timeStep, 1e-6)
+    for (let particle = 0; particle < this.particleCount; particle += 1) {
+      const offset = particle * 3
+      const dx = positions[offset] - predicted[offset]
+      const dy = positions[offset + 1] - predicted[offset + 1]
+      const dz = positions[offset + 2] - predicted[offset + 2]
+      if (dx === 0 && dy === 0 && dz === 0) {
+        continue
+      }
+
+      for (
+        let member = memberOffsets[particle];
+        member < memberOffsets[particle + 1];
+        member += 1
+      ) {
+        const vertex = members[member] * 3
+        positionArray[vertex] += dx
+        positionArray[vertex + 1] += dy
+        positionArray[vertex + 2] += dz
+        velocityArray[vertex] += dx * inverseTimeStep
+        velocityArray[vertex + 1] += dy * inverseTimeStep
+        velocityArray[vertex + 2] += dz * inverseTimeStep
+      }
+    }
+  }
+}
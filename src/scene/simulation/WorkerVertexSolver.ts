@@ -0,0 +1,235 @@
+import type {
+  SimulationFrame,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+  SimulationWorkerStep,
+  VertexBuffers,
+} from './types'
+
+export function isWorkerSimulationSupported(): boolean {
+  return typeof Worker !== 'undefined'
+}
+
+type PendingFrames = {
+  time: number
+  substeps: number
+  // Share of the damage the skipped frames' heal would have left.
+  healRemaining: number
+}
+
+type WorkerClient = {
+  land: (positionArray: Float32Array, velocityArray: Float32Array) => void
+  fail: () => void
+}
+
+// One worker for every solver, so a per-glyph layout doesn't spawn a thread
+// per glyph. Steps queued during a render frame go out together in a single
+// message once the frame's callbacks have run.
+class SharedSimulationWorker {
+  private readonly worker: Worker
+  private readonly clients = new Map<number, WorkerClient>()
+  private queued: SimulationWorkerStep[] = []
+  private nextId = 1
+  private terminated = false
+
+  constructor() {
+    this.worker = new Worker(
+      new URL('./simulation.worker.ts', import.meta.url),
+      { type: 'module' },
+    )
+    this.worker.addEventListener('message', this.handleMessage)
+    this.worker.addEventListener('error', this.handleError)
+  }
+
+  register(
+    client: WorkerClient,
+    basePositionArray: Float32Array,
+    baseNormalArray: Float32Array,
+  ): number {
+    const id = this.nextId
+    this.nextId += 1
+    this.clients.set(id, client)
+
+    const request: SimulationWorkerRequest = {
+      type: 'init',
+      id,
+      basePositionArray,
+      baseNormalArray,
+    }
+    this.worker.postMessage(request, [
+      basePositionArray.buffer,
+      baseNormalArray.buffer,
+    ])
+    return id
+  }
+
+  unregister(id: number): void {
+    if (this.terminated || !this.clients.delete(id)) {
+      return
+    }
+
+    this.queued = this.queued.filter((step) => step.id !== id)
+    if (this.clients.size === 0) {
+      this.terminate()
+      return
+    }
+
+    const request: SimulationWorkerRequest = { type: 'dispose', id }
+    this.worker.postMessage(request)
+  }
+
+  queue(step: SimulationWorkerStep): void {
+    this.queued.push(step)
+    if (this.queued.length === 1) {
+      queueMicrotask(this.flush)
+    }
+  }
+
+  private readonly flush = () => {
+    const steps = this.queued
+    this.queued = []
+    if (this.terminated || steps.length === 0) {
+      return
+    }
+
+    const request: SimulationWorkerRequest = { type: 'step', steps }
+    this.worker.postMessage(
+      request,
+      steps.flatMap(({ positionArray, velocityArray }) => [
+        positionArray.buffer,
+        velocityArray.buffer,
+      ]),
+    )
+  }
+
+  private terminate(): void {
+    this.terminated = true
+    this.worker.removeEventListener('message', this.handleMessage)
+    this.worker.removeEventListener('error', this.handleError)
+    this.worker.terminate()
+    if (sharedWorker === this) {
+      sharedWorker = null
+    }
+  }
+
+  private readonly handleMessage = (
+    event: MessageEvent<SimulationWorkerResponse>,
+  ) => {
+    for (const { id, positionArray, velocityArray } of event.data.steps) {
+      this.clients.get(id)?.land(positionArray, velocityArray)
+    }
+  }
+
+  private readonly handleError = () => {
+    const clients = [...this.clients.values()]
+    this.clients.clear()
+    this.terminate()
+    for (const client of clients) {
+      client.fail()
+    }
+  }
+}
+
+let sharedWorker: SharedSimulationWorker | null = null
+
+export class WorkerVertexSolver {
+  private readonly worker: SharedSimulationWorker
+  private readonly id: number
+  private readonly buffers: VertexBuffers
+  private readonly onStepped: () => void
+  private readonly onFailed: () => void
+  private transferPositionArray: Float32Array | null
+  private transferVelocityArray: Float32Array | null
+  // Frames skipped while a tick was in flight, folded into the next one.
+  private pending: PendingFrames | null = null
+  private failed = false
+
+  // `onFailed` fires once if the worker dies; the caller steps the buffers
+  // inline from then on.
+  constructor(
+    buffers: VertexBuffers,
+    onStepped: () => void,
+    onFailed: () => void,
+  ) {
+    this.buffers = buffers
+    this.onStepped = onStepped
+    this.onFailed = onFailed
+    this.transferPositionArray = new Float32Array(buffers.positionArray)
+    this.transferVelocityArray = new Float32Array(buffers.velocityArray)
+
+    sharedWorker ??= new SharedSimulationWorker()
+    this.worker = sharedWorker
+    this.id = this.worker.register(
+      { land: this.land, fail: this.fail },
+      new Float32Array(buffers.basePositionArray),
+      new Float32Array(buffers.baseNormalArray),
+    )
+  }
+
+  get unavailable(): boolean {
+    return this.failed
+  }
+
+  // While a tick is in flight the worker owns the buffers, so a frame's
+  // substeps wait and run with the next tick, under its emitters and impulses.
+  step(frame: SimulationFrame): void {
+    if (this.failed) {
+      return
+    }
+
+    const positionArray = this.transferPositionArray
+    const velocityArray = this.transferVelocityArray
+    const pending = this.pending
+    if (!positionArray || !velocityArray) {
+      this.pending = {
+        time: pending?.time ?? frame.time,
+        substeps: (pending?.substeps ?? 0) + frame.substeps,
+        healRemaining:
+          (pending?.healRemaining ?? 1) * (1 - frame.plasticity.heal),
+      }
+      return
+    }
+
+    this.transferPositionArray = null
+    this.transferVelocityArray = null
+    this.pending = null
+
+    this.worker.queue({
+      id: this.id,
+      frame: pending
+        ? {
+            ...frame,
+            time: pending.time,
+            substeps: pending.substeps + frame.substeps,
+            plasticity: {
+              ...frame.plasticity,
+              heal:
+                1 - pending.healRemaining * (1 - frame.plasticity.heal),
+            },
+          }
+        : frame,
+      positionArray,
+      velocityArray,
+    })
+  }
+
+  dispose(): void {
+    this.worker.unregister(this.id)
+  }
+
+  private readonly land = (
+    positionArray: Float32Array,
+    velocityArray: Float32Array,
+  ) => {
+    this.buffers.positionArray.set(positionArray)
+    this.buffers.velocityArray.set(velocityArray)
+    this.transferPositionArray = positionArray
+    this.transferVelocityArray = velocityArray
+    this.onStepped()
+  }
+
+  private readonly fail = () => {
+    this.failed = true
+    this.onFailed()
+  }
+}
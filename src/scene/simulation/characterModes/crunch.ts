@@ -0,0 +1,33 @@
+import { defineCharacterMode } from './types'
+
+export const crunch = defineCharacterMode({
+  id: 'Crunch',
+  label: 'Crunch',
+  impulse: 'Inward',
+  params: {},
+  displace(
+    {
+      pointerX,
+      pointerY,
+      pointerZ,
+      pointerFalloff,
+      noiseX,
+      noiseY,
+      characterStrength,
+    },
+    distorted,
+  ) {
+    const crunchPull = characterStrength * (0.45 + pointerFalloff * 0.9)
+    distorted.x += (pointerX - distorted.x) * crunchPull * 0.42
+    distorted.y += (pointerY - distorted.y) * crunchPull * 0.44
+    distorted.z += (pointerZ - distorted.z) * crunchPull * 0.34
+    distorted.x += noiseX * crunchPull * 0.22
+    distorted.y += noiseY * crunchPull * 0.18
+  },
+  glsl: /* glsl */ `
+    float crunchPull = characterStrength * (0.45 + pointerFalloff * 0.9);
+    distorted += (pointer - distorted) * crunchPull * vec3(0.42, 0.44, 0.34);
+    distorted.x += noiseX * crunchPull * 0.22;
+    distorted.y += noiseY * crunchPull * 0.18;
+  `,
+})
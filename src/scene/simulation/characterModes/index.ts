@@ -0,0 +1,85 @@
+import { crunch } from './crunch'
+import { magnetize } from './magnetize'
+import { melt } from './melt'
+import { organic } from './organic'
+import { rip } from './rip'
+import { ripple } from './ripple'
+import { shear } from './shear'
+import { twist } from './twist'
+import type { CharacterModeDefinition } from './types'
+import { voxelSnap } from './voxelSnap'
+
+export type {
+  CharacterModeDefinition,
+  CharacterModeInput,
+  CharacterModeParam,
+  CharacterModePoint,
+  ImpulseStyle,
+} from './types'
+
+// Registration order is also the GPU mode index, so append new modes.
+export const CHARACTER_MODES = [
+  organic,
+  shear,
+  rip,
+  crunch,
+  melt,
+  twist,
+  magnetize,
+  voxelSnap,
+  ripple,
+] as const
+
+export type CharacterModeId = (typeof CHARACTER_MODES)[number]['id']
+
+// Param values keyed by mode id, then param name.
+export type CharacterModeParams = Record<string, Record<string, number>>
+
+const CHARACTER_MODE_BY_ID = new Map<string, CharacterModeDefinition>(
+  CHARACTER_MODES.map((mode) => [mode.id, mode]),
+)
+const CHARACTER_MODE_INDEX = new Map<string, number>(
+  CHARACTER_MODES.map((mode, index) => [mode.id, index]),
+)
+
+export function isCharacterModeId(value: string): value is CharacterModeId {
+  return CHARACTER_MODE_BY_ID.has(value)
+}
+
+export function getCharacterMode(id: string): CharacterModeDefinition {
+  return CHARACTER_MODE_BY_ID.get(id) ?? organic
+}
+
+export function getCharacterModeIndex(id: string): number {
+  return CHARACTER_MODE_INDEX.get(id) ?? 0
+}
+
+export function createDefaultCharacterParams(): CharacterModeParams {
+  const params: CharacterModeParams = {}
+
+  for (const mode of CHARACTER_MODES) {
+    const modeParams: Record<string, number> = {}
+    for (const [key, param] of Object.entries(mode.params)) {
+      modeParams[key] = param.value
+    }
+    params[mode.id] = modeParams
+  }
+
+  return params
+}
+
+// Resolves a mode's params against its declared defaults so callers can pass
+// partial settings.
+export function resolveCharacterParams(
+  mode: CharacterModeDefinition,
+  params: CharacterModeParams | undefined,
+): Record<string, number> {
+  const overrides = params?.[mode.id]
+  const resolved: Record<string, number> = {}
+
+  for (const [key, param] of Object.entries(mode.params)) {
+    resolved[key] = overrides?.[key] ?? param.value
+  }
+
+  return resolved
+}
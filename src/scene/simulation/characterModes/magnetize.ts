@@ -0,0 +1,41 @@
+import { defineCharacterMode } from './types'
+
+// Drags vertices toward the pointer, hardest near the centre, with noisy
+// spikes along the field lines.
+export const magnetize = defineCharacterMode({
+  id: 'Magnetize',
+  label: 'Magnetize',
+  impulse: 'Inward',
+  params: {
+    pull: { value: 0.6, min: 0, max: 1.5, step: 0.01 },
+    sharpness: { value: 1.5, min: 0.2, max: 4, step: 0.01 },
+    spikes: { value: 0.2, min: 0, max: 1, step: 0.01 },
+  },
+  displace(
+    {
+      deltaX,
+      deltaY,
+      deltaZ,
+      radialX,
+      radialY,
+      radialZ,
+      pointerFalloff,
+      noiseX,
+      characterStrength,
+    },
+    distorted,
+    { pull, sharpness, spikes },
+  ) {
+    const attraction =
+      characterStrength * pull * Math.pow(pointerFalloff, sharpness)
+    const spike = noiseX * spikes * characterStrength
+    distorted.x += -deltaX * attraction + radialX * spike
+    distorted.y += -deltaY * attraction + radialY * spike
+    distorted.z += -deltaZ * attraction + radialZ * spike
+  },
+  glsl: /* glsl */ `
+    float attraction = characterStrength * pull * pow(pointerFalloff, sharpness);
+    float spike = noiseX * spikes * characterStrength;
+    distorted += -delta * attraction + radial * spike;
+  `,
+})
@@ -0,0 +1,25 @@
+import { defineCharacterMode } from './types'
+
+export const melt = defineCharacterMode({
+  id: 'Melt',
+  label: 'Melt',
+  impulse: 'Down',
+  params: {},
+  displace(
+    { baseX, pointerFalloff, noiseY, noiseZ, characterStrength, t, seed },
+    distorted,
+  ) {
+    const melt =
+      characterStrength *
+      (0.6 + 0.4 * Math.sin(baseX * 2.7 + t * 1.9 + seed * 0.11))
+    distorted.y -= melt * (0.62 + pointerFalloff * 0.48)
+    distorted.x += noiseZ * melt * 0.24
+    distorted.z += noiseY * melt * 0.21
+  },
+  glsl: /* glsl */ `
+    float melt = characterStrength * (0.6 + 0.4 * sin(base.x * 2.7 + t * 1.9 + seed * 0.11));
+    distorted.y -= melt * (0.62 + pointerFalloff * 0.48);
+    distorted.x += noiseZ * melt * 0.24;
+    distorted.z += noiseY * melt * 0.21;
+  `,
+})
@@ -0,0 +1,11 @@
+import { defineCharacterMode } from './types'
+
+// Noise and rotation only; the shared pointer distortion already covers it.
+export const organic = defineCharacterMode({
+  id: 'Organic',
+  label: 'Organic',
+  impulse: 'Radial',
+  params: {},
+  displace() {},
+  glsl: '',
+})
@@ -0,0 +1,23 @@
+import { defineCharacterMode } from './types'
+
+export const rip = defineCharacterMode({
+  id: 'Rip',
+  label: 'Rip',
+  impulse: 'Rip',
+  params: {},
+  displace(
+    { radialX, radialY, radialZ, distance, noiseX, characterStrength, t, seed },
+    distorted,
+  ) {
+    const ripWave =
+      Math.sin(distance * 20 - t * 9 + noiseX * 3.1 + seed * 0.3) *
+      characterStrength
+    distorted.x += radialX * ripWave * 0.62
+    distorted.y += radialY * ripWave * 0.38
+    distorted.z += radialZ * ripWave * 0.58
+  },
+  glsl: /* glsl */ `
+    float ripWave = sin(distance * 20.0 - t * 9.0 + noiseX * 3.1 + seed * 0.3) * characterStrength;
+    distorted += radial * ripWave * vec3(0.62, 0.38, 0.58);
+  `,
+})
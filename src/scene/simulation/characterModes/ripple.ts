@@ -0,0 +1,24 @@
+import { defineCharacterMode } from './types'
+
+// Concentric waves travelling out of the pointer through the text depth.
+export const ripple = defineCharacterMode({
+  id: 'Ripple',
+  label: 'Ripple',
+  impulse: 'Rip',
+  params: {
+    frequency: { value: 12, min: 1, max: 40, step: 0.1 },
+    speed: { value: 6, min: 0, max: 20, step: 0.1 },
+    amplitude: { value: 0.25, min: 0, max: 1, step: 0.01 },
+  },
+  displace(
+    { distance, characterStrength, t },
+    distorted,
+    { frequency, speed, amplitude },
+  ) {
+    distorted.z +=
+      Math.sin(distance * frequency - t * speed) * characterStrength * amplitude
+  },
+  glsl: /* glsl */ `
+    distorted.z += sin(distance * frequency - t * speed) * characterStrength * amplitude;
+  `,
+})
@@ -0,0 +1,20 @@
+import { defineCharacterMode } from './types'
+
+export const shear = defineCharacterMode({
+  id: 'Shear',
+  label: 'Shear',
+  impulse: 'Shear',
+  params: {},
+  displace({ baseY, deltaY, noiseY, noiseZ, characterStrength, t, seed }, distorted) {
+    const shear =
+      characterStrength *
+      (0.55 + 0.45 * Math.sin(baseY * 3.2 + t * 2.1 + seed * 0.07))
+    distorted.x += deltaY * shear * 0.7 + noiseY * characterStrength * 0.24
+    distorted.z += shear * 0.22 + noiseZ * characterStrength * 0.15
+  },
+  glsl: /* glsl */ `
+    float shear = characterStrength * (0.55 + 0.45 * sin(base.y * 3.2 + t * 2.1 + seed * 0.07));
+    distorted.x += delta.y * shear * 0.7 + noiseY * characterStrength * 0.24;
+    distorted.z += shear * 0.22 + noiseZ * characterStrength * 0.15;
+  `,
+})
@@ -0,0 +1,33 @@
+import { defineCharacterMode } from './types'
+
+// Wrings the text around a vertical axis through the pointer.
+export const twist = defineCharacterMode({
+  id: 'Twist',
+  label: 'Twist',
+  impulse: 'Shear',
+  params: {
+    turns: { value: 1.5, min: 0, max: 6, step: 0.01 },
+    taper: { value: 0.8, min: -2, max: 2, step: 0.01 },
+  },
+  displace(
+    { pointerX, pointerZ, deltaY, characterStrength },
+    distorted,
+    { turns, taper },
+  ) {
+    const angle = characterStrength * turns * Math.PI * (1 + deltaY * taper)
+    const cosine = Math.cos(angle)
+    const sine = Math.sin(angle)
+    const offsetX = distorted.x - pointerX
+    const offsetZ = distorted.z - pointerZ
+    distorted.x = pointerX + offsetX * cosine - offsetZ * sine
+    distorted.z = pointerZ + offsetX * sine + offsetZ * cosine
+  },
+  glsl: /* glsl */ `
+    float angle = characterStrength * turns * 3.14159265 * (1.0 + delta.y * taper);
+    float cosine = cos(angle);
+    float sine = sin(angle);
+    vec2 offset = distorted.xz - pointer.xz;
+    distorted.x = pointer.x + offset.x * cosine - offset.y * sine;
+    distorted.z = pointer.z + offset.x * sine + offset.y * cosine;
+  `,
+})
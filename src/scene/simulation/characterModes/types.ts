@@ -0,0 +1,70 @@
+// How a shockwave from `triggerImpulse` pushes vertices while this mode is
+// selected. The shapes are implemented by each solver.
+export type ImpulseStyle = 'Radial' | 'Shear' | 'Rip' | 'Inward' | 'Down'
+
+export type CharacterModeParam = {
+  value: number
+  min: number
+  max: number
+  step: number
+  label?: string
+}
+
+// Per-vertex, per-emitter values shared by the CPU and GLSL implementations.
+// `deltaX/Y/Z` is base minus pointer and `radialX/Y/Z` its normalised form.
+export type CharacterModeInput = {
+  baseX: number
+  baseY: number
+  baseZ: number
+  pointerX: number
+  pointerY: number
+  pointerZ: number
+  deltaX: number
+  deltaY: number
+  deltaZ: number
+  radialX: number
+  radialY: number
+  radialZ: number
+  distance: number
+  pointerFalloff: number
+  characterStrength: number
+  noiseX: number
+  noiseY: number
+  noiseZ: number
+  t: number
+  seed: number
+}
+
+export type CharacterModePoint = {
+  x: number
+  y: number
+  z: number
+}
+
+export type CharacterModeDefinition<
+  Id extends string = string,
+  Param extends string = string,
+> = {
+  id: Id
+  label: string
+  impulse: ImpulseStyle
+  params: Record<Param, CharacterModeParam>
+  // Offsets `distorted` in place. It arrives already noised and rotated.
+  displace(
+    input: CharacterModeInput,
+    distorted: CharacterModePoint,
+    params: Record<Param, number>,
+  ): void
+  // GLSL statements for the GPU solver. In scope: `base`, `pointer`, `delta`,
+  // `radial` (vec3), `distance`, `pointerFalloff`, `characterStrength`,
+  // `noiseX/Y/Z`, `t`, `seed` (float), every param as a float, and
+  // `inout vec3 distorted`.
+  glsl: string
+}
+
+export function defineCharacterMode<
+  Id extends string,
+  Param extends string = never,
+>(definition: CharacterModeDefinition<Id, Param>) {
+  return definition
+}
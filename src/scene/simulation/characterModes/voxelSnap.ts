@@ -0,0 +1,27 @@
+import { defineCharacterMode } from './types'
+
+// Quantises the distorted surface onto a grid.
+export const voxelSnap = defineCharacterMode({
+  id: 'Voxel Snap',
+  label: 'Voxel Snap',
+  impulse: 'Radial',
+  params: {
+    cellSize: { value: 0.12, min: 0.02, max: 0.5, step: 0.001, label: 'cell size' },
+    amount: { value: 1, min: 0, max: 2, step: 0.01 },
+  },
+  displace({ characterStrength }, distorted, { cellSize, amount }) {
+    const cell = Math.max(cellSize, 0.001)
+    const snap = Math.min(1, Math.max(0, characterStrength * amount))
+    const snappedX = Math.floor(distorted.x / cell + 0.5) * cell
+    const snappedY = Math.floor(distorted.y / cell + 0.5) * cell
+    const snappedZ = Math.floor(distorted.z / cell + 0.5) * cell
+    distorted.x += (snappedX - distorted.x) * snap
+    distorted.y += (snappedY - distorted.y) * snap
+    distorted.z += (snappedZ - distorted.z) * snap
+  },
+  glsl: /* glsl */ `
+    float cell = max(cellSize, 0.001);
+    vec3 snapped = floor(distorted / cell + 0.5) * cell;
+    distorted = mix(distorted, snapped, clamp(characterStrength * amount, 0.0, 1.0));
+  `,
+})
@@ -0,0 +1,309 @@
+import type { NoiseFunction3D } from 'simplex-noise'
+import { Euler, Vector3 } from 'three'
+
+import {
+  getCharacterMode,
+  resolveCharacterParams,
+  type CharacterModeInput,
+  type CharacterModePoint,
+} from './characterModes'
+import { evaluateFalloff, sanitizeFalloffCurve } from './falloff'
+import type { SimulationFrame, VertexBuffers } from './types'
+
+// Tuned as 0.12 per 60 Hz frame, expressed per second squared.
+export const IMPULSE_ACCELERATION_SCALE = 0.12 * 60 * 60
+
+const scratchVector = new Vector3()
+const scratchEuler = new Euler()
+const scratchDistorted: CharacterModePoint = { x: 0, y: 0, z: 0 }
+const scratchInput: CharacterModeInput = {
+  baseX: 0,
+  baseY: 0,
+  baseZ: 0,
+  pointerX: 0,
+  pointerY: 0,
+  pointerZ: 0,
+  deltaX: 0,
+  deltaY: 0,
+  deltaZ: 0,
+  radialX: 0,
+  radialY: 0,
+  radialZ: 0,
+  distance: 0,
+  pointerFalloff: 0,
+  characterStrength: 0,
+  noiseX: 0,
+  noiseY: 0,
+  noiseZ: 0,
+  t: 0,
+  seed: 0,
+}
+
+export function stepCpuSimulation(
+  buffers: VertexBuffers,
+  frame: SimulationFrame,
+  noise3d: NoiseFunction3D,
+): void {
+  const {
+    positionArray,
+    basePositionArray,
+    restPositionArray,
+    baseNormalArray,
+    velocityArray,
+  } = buffers
+  const {
+    distortion: activeDistortion,
+    emitters,
+    impulses,
+    seed,
+    timeStep,
+    substeps,
+    plasticity,
+  } = frame
+
+  const frequency = activeDistortion.noiseFrequency
+  const falloffCurve = sanitizeFalloffCurve(activeDistortion.falloffCurve)
+  const stiffnessStep = activeDistortion.stiffness * timeStep
+  const dampingFactor = Math.exp(-activeDistortion.damping * timeStep)
+  const emitterModes = emitters.map((emitter) => getCharacterMode(emitter.mode))
+  const emitterParams = emitterModes.map((mode) =>
+    resolveCharacterParams(mode, activeDistortion.characterParams),
+  )
+  const impulseStyles = impulses.map(
+    (impulse) => getCharacterMode(impulse.mode).impulse,
+  )
+  const yieldDistance = Math.max(plasticity.yieldDistance, 0)
+  const flowStep = plasticity.enabled
+    ? 1 - Math.exp(-Math.max(plasticity.flowRate, 0) * timeStep)
+    : 0
+  // The frame's heal fraction, split evenly over its substeps.
+  const healRemaining = 1 - Math.min(Math.max(plasticity.heal, 0), 1)
+  const healStep = 1 - Math.pow(healRemaining, 1 / Math.max(substeps, 1))
+
+  // Semi-implicit Euler at a fixed step; velocities are in units per second.
+  for (let substep = 0; substep < substeps; substep += 1) {
+    const t = frame.time + substep * timeStep * activeDistortion.noiseSpeed
+
+    for (let i = 0; i < positionArray.length; i += 3) {
+      // Distortion and impulses act on the (possibly dented) rest pose.
+      const baseX = restPositionArray[i]
+      const baseY = restPositionArray[i + 1]
+      const baseZ = restPositionArray[i + 2]
+
+      const currentX = positionArray[i]
+      const currentY = positionArray[i + 1]
+      const currentZ = positionArray[i + 2]
+
+      const normalX = baseNormalArray[i]
+      const normalY = baseNormalArray[i + 1]
+      const normalZ = baseNormalArray[i + 2]
+
+      const noiseX = noise3d(currentX * frequency + seed * 0.17, currentY * frequency + t, currentZ * frequency)
+      const noiseY = noise3d(currentX * frequency, currentY * frequency + 23.713 + t, currentZ * frequency + seed * 0.31)
+      const noiseZ = noise3d(currentX * frequency + seed * 0.59, currentY * frequency + t, currentZ * frequency + 51.219)
+
+      // Each emitter distorts the rest pose on its own; the offsets are summed
+      // so overlapping touches reinforce each other instead of averaging out.
+      let targetX = baseX
+      let targetY = baseY
+      let targetZ = baseZ
+
+      for (let j = 0; j < emitters.length; j += 1) {
+        const emitter = emitters[j]
+        const pointerX = emitter.x
+        const pointerY = emitter.y
+        const pointerZ = emitter.z
+        const press = emitter.press
+        const radius = Math.max(emitter.radius, 0.0001)
+
+        const dx = baseX - pointerX
+        const dy = baseY - pointerY
+        const dz = baseZ - pointerZ
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz)
+
+        if (distance > radius) {
+          continue
+        }
+
+        const pointerFalloff = evaluateFalloff(
+          activeDistortion.falloff,
+          activeDistortion.innerRadius,
+          falloffCurve,
+          distance,
+          radius,
+        )
+        const pointerInfluence = activeDistortion.explodeAmplitude * pointerFalloff
+        const mixFactor = Math.max(press, activeDistortion.idleMix)
+
+        let distortedX = baseX + noiseX * normalX * pointerInfluence * activeDistortion.noiseAmplitude
+        let distortedY = baseY + noiseY * normalY * pointerInfluence * activeDistortion.noiseAmplitude
+        let distortedZ = baseZ + noiseZ * normalZ * pointerInfluence * activeDistortion.noiseAmplitude
+
+        if (pointerInfluence > 0) {
+          const rotationFactor = distance * pointerInfluence * activeDistortion.rotationAmplitude
+
+          scratchEuler.set(
+            normalX * rotationFactor,
+            normalY * rotationFactor,
+            normalZ * rotationFactor,
+          )
+
+          scratchVector.set(distortedX, distortedY, distortedZ).applyEuler(scratchEuler)
+          distortedX = scratchVector.x
+          distortedY = scratchVector.y
+          distortedZ = scratchVector.z
+
+          const inverseDistance = 1 / Math.max(distance, 0.0001)
+          const input = scratchInput
+          input.baseX = baseX
+          input.baseY = baseY
+          input.baseZ = baseZ
+          input.pointerX = pointerX
+          input.pointerY = pointerY
+          input.pointerZ = pointerZ
+          input.deltaX = dx
+          input.deltaY = dy
+          input.deltaZ = dz
+          input.radialX = dx * inverseDistance
+          input.radialY = dy * inverseDistance
+          input.radialZ = dz * inverseDistance
+          input.distance = distance
+          input.pointerFalloff = pointerFalloff
+          input.characterStrength =
+            activeDistortion.characterStrength * pointerFalloff * press
+          input.noiseX = noiseX
+          input.noiseY = noiseY
+          input.noiseZ = noiseZ
+          input.t = t
+          input.seed = seed
+
+          scratchDistorted.x = distortedX
+          scratchDistorted.y = distortedY
+          scratchDistorted.z = distortedZ
+          emitterModes[j].displace(input, scratchDistorted, emitterParams[j])
+          distortedX = scratchDistorted.x
+          distortedY = scratchDistorted.y
+          distortedZ = scratchDistorted.z
+        }
+
+        targetX += (distortedX - baseX) * mixFactor
+        targetY += (distortedY - baseY) * mixFactor
+        targetZ += (distortedZ - baseZ) * mixFactor
+      }
+
+      let velocityX = velocityArray[i]
+      let velocityY = velocityArray[i + 1]
+      let velocityZ = velocityArray[i + 2]
+
+      velocityX += (targetX - currentX) * stiffnessStep
+      velocityY += (targetY - currentY) * stiffnessStep
+      velocityZ += (targetZ - currentZ) * stiffnessStep
+
+      for (let j = 0; j < impulses.length; j += 1) {
+        const impulse = impulses[j]
+        const impulseDx = baseX - impulse.x
+        const impulseDy = baseY - impulse.y
+        const impulseDz = baseZ - impulse.z
+        const impulseDistance = Math.sqrt(
+          impulseDx * impulseDx + impulseDy * impulseDy + impulseDz * impulseDz,
+        )
+        if (impulseDistance > impulse.radius) {
+          continue
+        }
+
+        // A ring that expands to the radius over the impulse lifetime and fades
+        // out quadratically behind it.
+        const front = impulse.radius * impulse.progress
+        const width = Math.max(impulse.radius * 0.18, 0.02)
+        const ring = (impulseDistance - front) / width
+        const fade = (1 - impulse.progress) * (1 - impulse.progress)
+        const shock =
+          Math.exp(-ring * ring) *
+          fade *
+          (1 - impulseDistance / impulse.radius) *
+          impulse.strength *
+          IMPULSE_ACCELERATION_SCALE *
+          timeStep
+        const inverseImpulseDistance = 1 / Math.max(impulseDistance, 0.0001)
+        const shockX = impulseDx * inverseImpulseDistance
+        const shockY = impulseDy * inverseImpulseDistance
+        const shockZ = impulseDz * inverseImpulseDistance
+
+        switch (impulseStyles[j]) {
+          case 'Shear':
+            velocityX += impulseDy * shock * 1.4
+            velocityZ += shock * 0.3
+            break
+          case 'Rip': {
+            const ripWave = Math.sin(impulseDistance * 20 - impulse.progress * 12)
+            velocityX += shockX * shock * ripWave
+            velocityY += shockY * shock * ripWave
+            velocityZ += shockZ * shock * ripWave
+            break
+          }
+          case 'Inward':
+            velocityX -= shockX * shock
+            velocityY -= shockY * shock
+            velocityZ -= shockZ * shock
+            break
+          case 'Down':
+            velocityX += shockX * shock * 0.3
+            velocityY -= shock
+            velocityZ += shockZ * shock * 0.3
+            break
+          case 'Radial':
+          default:
+            velocityX += shockX * shock
+            velocityY += shockY * shock
+            velocityZ += shockZ * shock
+            break
+        }
+      }
+
+      const nextX = currentX + velocityX * timeStep
+      const nextY = currentY + velocityY * timeStep
+      const nextZ = currentZ + velocityZ * timeStep
+
+      velocityX *= dampingFactor
+      velocityY *= dampingFactor
+      velocityZ *= dampingFactor
+
+      positionArray[i] = nextX
+      positionArray[i + 1] = nextY
+      positionArray[i + 2] = nextZ
+
+      velocityArray[i] = velocityX
+      velocityArray[i + 1] = velocityY
+      velocityArray[i + 2] = velocityZ
+
+      if (flowStep > 0 || healStep > 0) {
+        let restX = baseX
+        let restY = baseY
+        let restZ = baseZ
+
+        // Displacement past the yield distance flows into the rest pose, so
+        // repeated hits keep denting it.
+        const offsetX = nextX - restX
+        const offsetY = nextY - restY
+        const offsetZ = nextZ - restZ
+        const offset = Math.sqrt(
+          offsetX * offsetX + offsetY * offsetY + offsetZ * offsetZ,
+        )
+        if (flowStep > 0 && offset > yieldDistance) {
+          const flow = (1 - yieldDistance / offset) * flowStep
+          restX += offsetX * flow
+          restY += offsetY * flow
+          restZ += offsetZ * flow
+        }
+
+        restX += (basePositionArray[i] - restX) * healStep
+        restY += (basePositionArray[i + 1] - restY) * healStep
+        restZ += (basePositionArray[i + 2] - restZ) * healStep
+
+        restPositionArray[i] = restX
+        restPositionArray[i + 1] = restY
+        restPositionArray[i + 2] = restZ
+      }
+    }
+  }
+}
@@ -0,0 +1,155 @@
+export type FalloffProfile =
+  | 'Linear'
+  | 'Smoothstep'
+  | 'Gaussian'
+  | 'Inverse Square'
+  | 'Curve'
+
+// [normalised distance past the inner radius, strength], both in 0..1.
+export type FalloffCurvePoint = [number, number]
+
+export const FALLOFF_PROFILES: readonly FalloffProfile[] = [
+  'Linear',
+  'Smoothstep',
+  'Gaussian',
+  'Inverse Square',
+  'Curve',
+]
+
+export const MAX_FALLOFF_CURVE_POINTS = 8
+
+export const DEFAULT_FALLOFF_CURVE: FalloffCurvePoint[] = [
+  [0, 1],
+  [0.35, 0.85],
+  [0.7, 0.25],
+  [1, 0],
+]
+
+const GAUSSIAN_SHARPNESS = 4
+const GAUSSIAN_FLOOR = Math.exp(-GAUSSIAN_SHARPNESS)
+const INVERSE_SQUARE_SHARPNESS = 15
+const INVERSE_SQUARE_FLOOR = 1 / (1 + INVERSE_SQUARE_SHARPNESS)
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+export function isFalloffProfile(value: string): value is FalloffProfile {
+  return (FALLOFF_PROFILES as readonly string[]).includes(value)
+}
+
+export function getFalloffProfileIndex(profile: FalloffProfile): number {
+  return Math.max(FALLOFF_PROFILES.indexOf(profile), 0)
+}
+
+// Sorted by distance with pinned ends, so the curve always spans the radius.
+export function sanitizeFalloffCurve(
+  points: readonly FalloffCurvePoint[],
+): FalloffCurvePoint[] {
+  const sorted = points
+    .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+    .map(([x, y]): FalloffCurvePoint => [clamp(x, 0, 1), clamp(y, 0, 1)])
+    .sort((a, b) => a[0] - b[0])
+    .slice(0, MAX_FALLOFF_CURVE_POINTS)
+
+  if (sorted.length < 2) {
+    return DEFAULT_FALLOFF_CURVE.map(([x, y]) => [x, y])
+  }
+
+  sorted[0][0] = 0
+  sorted[sorted.length - 1][0] = 1
+  return sorted
+}
+
+function sampleCurve(curve: readonly FalloffCurvePoint[], u: number): number {
+  for (let index = 1; index < curve.length; index += 1) {
+    const [x1, y1] = curve[index]
+    if (u <= x1) {
+      const [x0, y0] = curve[index - 1]
+      const span = x1 - x0
+      return span > 0 ? y0 + ((u - x0) / span) * (y1 - y0) : y1
+    }
+  }
+
+  return curve[curve.length - 1]?.[1] ?? 0
+}
+
+// Strength in 0..1 for a vertex `distance` away from an emitter: full inside
+// `innerRadius` (a fraction of `radius`), shaped by the profile beyond it.
+export function evaluateFalloff(
+  profile: FalloffProfile,
+  innerRadius: number,
+  curve: readonly FalloffCurvePoint[],
+  distance: number,
+  radius: number,
+): number {
+  const inner = clamp(innerRadius, 0, 0.99)
+  const u = clamp((distance / radius - inner) / (1 - inner), 0, 1)
+
+  switch (profile) {
+    case 'Smoothstep':
+      return 1 - u * u * (3 - 2 * u)
+    case 'Gaussian':
+      return (
+        (Math.exp(-GAUSSIAN_SHARPNESS * u * u) - GAUSSIAN_FLOOR) /
+        (1 - GAUSSIAN_FLOOR)
+      )
+    case 'Inverse Square':
+      return (
+        (1 / (1 + INVERSE_SQUARE_SHARPNESS * u * u) - INVERSE_SQUARE_FLOOR) /
+        (1 - INVERSE_SQUARE_FLOOR)
+      )
+    case 'Curve':
+      return sampleCurve(curve, u)
+    case 'Linear':
+    default:
+      return 1 - u
+  }
+}
+
+// GLSL twin of `evaluateFalloff`; profile indices follow FALLOFF_PROFILES.
+export const falloffChunk = /* glsl */ `
+uniform int uFalloffProfile;
+uniform float uFalloffInner;
+uniform int uFalloffCurveCount;
+uniform vec2 uFalloffCurve[${MAX_FALLOFF_CURVE_POINTS}];
+
+float sampleFalloffCurve(float u) {
+  for (int i = 1; i < ${MAX_FALLOFF_CURVE_POINTS}; i++) {
+    if (i >= uFalloffCurveCount) {
+      break;
+    }
+
+    vec2 a = uFalloffCurve[i - 1];
+    vec2 b = uFalloffCurve[i];
+    if (u <= b.x) {
+      float span = b.x - a.x;
+      return span > 0.0 ? mix(a.y, b.y, (u - a.x) / span) : b.y;
+    }
+  }
+
+  return uFalloffCurve[${MAX_FALLOFF_CURVE_POINTS - 1}].y;
+}
+
+float evaluateFalloff(float distance, float radius) {
+  float inner = clamp(uFalloffInner, 0.0, 0.99);
+  float u = clamp((distance / radius - inner) / (1.0 - inner), 0.0, 1.0);
+
+  if (uFalloffProfile == 1) {
+    return 1.0 - u * u * (3.0 - 2.0 * u);
+  }
+  if (uFalloffProfile == 2) {
+    float floorValue = exp(-${GAUSSIAN_SHARPNESS.toFixed(1)});
+    return (exp(-${GAUSSIAN_SHARPNESS.toFixed(1)} * u * u) - floorValue) / (1.0 - floorValue);
+  }
+  if (uFalloffProfile == 3) {
+    float floorValue = 1.0 / (1.0 + ${INVERSE_SQUARE_SHARPNESS.toFixed(1)});
+    return (1.0 / (1.0 + ${INVERSE_SQUARE_SHARPNESS.toFixed(1)} * u * u) - floorValue) / (1.0 - floorValue);
+  }
+  if (uFalloffProfile == 4) {
+    return sampleFalloffCurve(u);
+  }
+
+  return 1.0 - u;
+}
+`
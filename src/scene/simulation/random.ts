@@ -0,0 +1,48 @@
+import { createNoise3D, type NoiseFunction3D } from 'simplex-noise'
+
+// FNV-1a over the float's bytes, so fractional seeds map to distinct streams.
+function hashSeed(seed: number): number {
+  const view = new DataView(new ArrayBuffer(8))
+  view.setFloat64(0, seed)
+
+  let hash = 0x811c9dc5
+  for (let index = 0; index < 8; index += 1) {
+    hash ^= view.getUint8(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+// mulberry32: small, fast and identical on every JS engine.
+export function createSeededRandom(seed: number): () => number {
+  let state = hashSeed(seed)
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let value = Math.imul(state ^ (state >>> 15), 1 | state)
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function createSeededNoise3D(seed: number): NoiseFunction3D {
+  return createNoise3D(createSeededRandom(seed))
+}
+
+// The 256-entry permutation `createSeededNoise3D` shuffles for `seed`, mirroring
+// simplex-noise's table build, so shaders can sample the same noise field.
+export function createSeededPermutation(seed: number): Uint8Array {
+  const random = createSeededRandom(seed)
+  const permutation = new Uint8Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    permutation[index] = index
+  }
+  for (let index = 0; index < 255; index += 1) {
+    const swap = index + Math.floor(random() * (256 - index))
+    const value = permutation[index]
+    permutation[index] = permutation[swap]
+    permutation[swap] = value
+  }
+  return permutation
+}
@@ -0,0 +1,220 @@
+import type { BufferGeometry } from 'three'
+
+import type { SeamSettings } from '../ElasticText'
+import { createSeededNoise3D } from './random'
+
+// Corners closer than this share a welded position; extruded text duplicates
+// every vertex per face.
+const WELD_PRECISION = 1e4
+// Spatial frequency of the noise that picks which seams tear.
+const TEAR_NOISE_FREQUENCY = 1.3
+// Shared by every mesh so the torn seams don't change with the seed.
+const tearNoise3d = createSeededNoise3D(13)
+
+export type CoincidentVertices = {
+  // Weld group of every vertex.
+  groupOf: Int32Array
+  groupCount: number
+}
+
+export type SeamLayout = {
+  // Direction the solvers push each vertex along. Coincident vertices share
+  // one unless their seam tears.
+  displacementNormalArray: Float32Array
+  // Triangles, in both windings, that bridge torn seams.
+  wallIndices: Uint32Array
+}
+
+export function groupCoincidentVertices(
+  positionArray: ArrayLike<number>,
+): CoincidentVertices {
+  const vertexCount = Math.floor(positionArray.length / 3)
+  const groups = new Map<string, number>()
+  const groupOf = new Int32Array(vertexCount)
+
+  for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+    const x = Math.round(positionArray[vertex * 3] * WELD_PRECISION)
+    const y = Math.round(positionArray[vertex * 3 + 1] * WELD_PRECISION)
+    const z = Math.round(positionArray[vertex * 3 + 2] * WELD_PRECISION)
+    const key = `${x},${y},${z}`
+    let group = groups.get(key)
+    if (group === undefined) {
+      group = groups.size
+      groups.set(key, group)
+    }
+    groupOf[vertex] = group
+  }
+
+  return { groupOf, groupCount: groups.size }
+}
+
+function normalDot(normals: ArrayLike<number>, a: number, b: number): number {
+  return (
+    normals[a * 3] * normals[b * 3] +
+    normals[a * 3 + 1] * normals[b * 3 + 1] +
+    normals[a * 3 + 2] * normals[b * 3 + 2]
+  )
+}
+
+// Every welded position pushes along the average of its face normals. In
+// `Tear` mode, corners on a crease sharper than `tearAngle` (and inside the
+// noise-picked coverage) lean back towards their own face normal by
+// `tearAmount`, which pulls the seam open as the text deforms.
+export function createSeamLayout(
+  geometry: BufferGeometry,
+  settings: SeamSettings,
+): SeamLayout {
+  const positionArray = geometry.getAttribute('position').array
+  const normalArray = geometry.getAttribute('normal').array
+  const vertexCount = Math.floor(positionArray.length / 3)
+  const { groupOf, groupCount } = groupCoincidentVertices(positionArray)
+
+  const groupOffsets = new Int32Array(groupCount + 1)
+  for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+    groupOffsets[groupOf[vertex] + 1] += 1
+  }
+  for (let group = 0; group < groupCount; group += 1) {
+    groupOffsets[group + 1] += groupOffsets[group]
+  }
+  const groupVertices = new Int32Array(vertexCount)
+  const groupFill = groupOffsets.slice(0, groupCount)
+  for (let vertex = 0; vertex < vertexCount; vertex += 1) {
+    groupVertices[groupFill[groupOf[vertex]]] = vertex
+    groupFill[groupOf[vertex]] += 1
+  }
+
+  const tearing = settings.mode === 'Tear'
+  const tearCos = Math.cos((settings.tearAngle * Math.PI) / 180)
+  const tearAmount = Math.min(Math.max(settings.tearAmount, 0), 1)
+  const displacementNormalArray = new Float32Array(vertexCount * 3)
+
+  for (let group = 0; group < groupCount; group += 1) {
+    const start = groupOffsets[group]
+    const end = groupOffsets[group + 1]
+
+    let weldedX = 0
+    let weldedY = 0
+    let weldedZ = 0
+    for (let entry = start; entry < end; entry += 1) {
+      const vertex = groupVertices[entry]
+      weldedX += normalArray[vertex * 3]
+      weldedY += normalArray[vertex * 3 + 1]
+      weldedZ += normalArray[vertex * 3 + 2]
+    }
+    const weldedLength = Math.hypot(weldedX, weldedY, weldedZ)
+
+    const first = groupVertices[start]
+    const torn =
+      tearing &&
+      0.5 +
+        0.5 *
+          tearNoise3d(
+            positionArray[first * 3] * TEAR_NOISE_FREQUENCY,
+            positionArray[first * 3 + 1] * TEAR_NOISE_FREQUENCY,
+            positionArray[first * 3 + 2] * TEAR_NOISE_FREQUENCY,
+          ) <=
+        settings.tearCoverage
+
+    for (let entry = start; entry < end; entry += 1) {
+      const vertex = groupVertices[entry]
+      const normalX = normalArray[vertex * 3]
+      const normalY = normalArray[vertex * 3 + 1]
+      const normalZ = normalArray[vertex * 3 + 2]
+
+      let tear = 0
+      if (torn) {
+        for (let other = start; other < end && tear === 0; other += 1) {
+          if (normalDot(normalArray, vertex, groupVertices[other]) < tearCos) {
+            tear = tearAmount
+          }
+        }
+      }
+
+      // Faces that cancel out (a hairline sliver) keep their own normal.
+      if (weldedLength < 1e-6) {
+        tear = 1
+      }
+
+      const scale = weldedLength < 1e-6 ? 0 : (1 - tear) / weldedLength
+      const x = weldedX * scale + normalX * tear
+      const y = weldedY * scale + normalY * tear
+      const z = weldedZ * scale + normalZ * tear
+      const length = Math.max(Math.hypot(x, y, z), 1e-6)
+      displacementNormalArray[vertex * 3] = x / length
+      displacementNormalArray[vertex * 3 + 1] = y / length
+      displacementNormalArray[vertex * 3 + 2] = z / length
+    }
+  }
+
+  return {
+    displacementNormalArray,
+    wallIndices:
+      tearing && settings.innerWalls
+        ? createWallIndices(
+            geometry,
+            groupOf,
+            groupCount,
+            displacementNormalArray,
+          )
+        : new Uint32Array(0),
+  }
+}
+
+// Pairs up the edges two faces share along a seam and, wherever their corners
+// push apart, spans them with a quad that stays flat until the seam opens.
+function createWallIndices(
+  geometry: BufferGeometry,
+  groupOf: Int32Array,
+  groupCount: number,
+  displacementNormalArray: Float32Array,
+): Uint32Array {
+  const index = geometry.getIndex()
+  const vertexCount = groupOf.length
+  const triangleCount = index ? index.count / 3 : vertexCount / 3
+  const vertexAt = (corner: number) => (index ? index.getX(corner) : corner)
+
+  // Edge corners ordered by weld group, keyed by the group pair.
+  const seamEdges = new Map<number, number[]>()
+  for (let triangle = 0; triangle < triangleCount; triangle += 1) {
+    for (let side = 0; side < 3; side += 1) {
+      const start = vertexAt(triangle * 3 + side)
+      const end = vertexAt(triangle * 3 + ((side + 1) % 3))
+      if (groupOf[start] === groupOf[end]) {
+        continue
+      }
+
+      const a = groupOf[start] < groupOf[end] ? start : end
+      const b = a === start ? end : start
+
+      const key = groupOf[a] * groupCount + groupOf[b]
+      const edges = seamEdges.get(key)
+      if (edges) {
+        edges.push(a, b)
+      } else {
+        seamEdges.set(key, [a, b])
+      }
+    }
+  }
+
+  const walls: number[] = []
+  for (const edges of seamEdges.values()) {
+    for (let first = 0; first < edges.length; first += 2) {
+      for (let second = first + 2; second < edges.length; second += 2) {
+        const a1 = edges[first]
+        const b1 = edges[first + 1]
+        const a2 = edges[second]
+        const b2 = edges[second + 1]
+        const splits =
+          normalDot(displacementNormalArray, a1, a2) < 1 - 1e-6 ||
+          normalDot(displacementNormalArray, b1, b2) < 1 - 1e-6
+        if (!splits) {
+          continue
+        }
+
+        walls.push(a1, b1, b2, a1, b2, a2, a1, b2, b1, a1, a2, b2)
+      }
+    }
+  }
+
+  return Uint32Array.from(walls)
+}
@@ -0,0 +1,70 @@
+import type { NoiseFunction3D } from 'simplex-noise'
+
+import { stepCpuSimulation } from './cpuSolver'
+import { createSeededNoise3D } from './random'
+import type {
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+} from './types'
+
+type WorkerMesh = {
+  basePositionArray: Float32Array
+  // Plastic flow only lives here; a reinitialised solver starts undamaged.
+  restPositionArray: Float32Array
+  baseNormalArray: Float32Array
+  noiseSeed: number
+  noise3d: NoiseFunction3D
+}
+
+const meshes = new Map<number, WorkerMesh>()
+
+self.addEventListener(
+  'message',
+  (event: MessageEvent<SimulationWorkerRequest>) => {
+    const request = event.data
+
+    if (request.type === 'init') {
+      meshes.set(request.id, {
+        basePositionArray: request.basePositionArray,
+        restPositionArray: new Float32Array(request.basePositionArray),
+        baseNormalArray: request.baseNormalArray,
+        noiseSeed: 0,
+        noise3d: createSeededNoise3D(0),
+      })
+      return
+    }
+
+    if (request.type === 'dispose') {
+      meshes.delete(request.id)
+      return
+    }
+
+    const response: SimulationWorkerResponse = { type: 'stepped', steps: [] }
+    const transfer: Transferable[] = []
+    for (const { id, frame, positionArray, velocityArray } of request.steps) {
+      const mesh = meshes.get(id)
+      if (mesh) {
+        if (frame.seed !== mesh.noiseSeed) {
+          mesh.noiseSeed = frame.seed
+          mesh.noise3d = createSeededNoise3D(frame.seed)
+        }
+
+        stepCpuSimulation(
+          {
+            positionArray,
+            basePositionArray: mesh.basePositionArray,
+            restPositionArray: mesh.restPositionArray,
+            baseNormalArray: mesh.baseNormalArray,
+            velocityArray,
+          },
+          frame,
+          mesh.noise3d,
+        )
+      }
+
+      response.steps.push({ id, positionArray, velocityArray })
+      transfer.push(positionArray.buffer, velocityArray.buffer)
+    }
+    self.postMessage(response, { transfer })
+  },
+)
@@ -0,0 +1,87 @@
+import type {
+  DistortionCharacterMode,
+  DistortionSettings,
+} from '../ElasticText'
+
+export type VertexBuffers = {
+  positionArray: Float32Array
+  // Original glyph shape.
+  basePositionArray: Float32Array
+  // Pose the springs pull toward; plastic flow dents it away from the base.
+  restPositionArray: Float32Array
+  // Direction noise and rotation push along; coincident seam vertices share
+  // one unless the seam tears.
+  baseNormalArray: Float32Array
+  velocityArray: Float32Array
+}
+
+export type EmitterFrame = {
+  x: number
+  y: number
+  z: number
+  radius: number
+  press: number
+  mode: DistortionCharacterMode
+}
+
+export type ImpulseFrame = {
+  x: number
+  y: number
+  z: number
+  radius: number
+  strength: number
+  mode: DistortionCharacterMode
+  progress: number
+}
+
+export type PlasticityFrame = {
+  enabled: boolean
+  // Distance from the rest pose a vertex can travel before it yields.
+  yieldDistance: number
+  // 1/s; how fast displacement past the yield distance flows into the rest pose.
+  flowRate: number
+  // Fraction of the way back to the base shape covered over this frame.
+  heal: number
+}
+
+export type SimulationFrame = {
+  // Noise time at the first substep; later substeps advance it by timeStep.
+  time: number
+  timeStep: number
+  substeps: number
+  seed: number
+  distortion: DistortionSettings
+  emitters: EmitterFrame[]
+  impulses: ImpulseFrame[]
+  plasticity: PlasticityFrame
+}
+
+// One shared worker steps every mesh; each is addressed by the id it was
+// registered under.
+export type SimulationWorkerStep = {
+  id: number
+  frame: SimulationFrame
+  positionArray: Float32Array
+  velocityArray: Float32Array
+}
+
+export type SimulationWorkerRequest =
+  | {
+      type: 'init'
+      id: number
+      basePositionArray: Float32Array
+      baseNormalArray: Float32Array
+    }
+  | {
+      type: 'dispose'
+      id: number
+    }
+  | {
+      type: 'step'
+      steps: SimulationWorkerStep[]
+    }
+
+export type SimulationWorkerResponse = {
+  type: 'stepped'
+  steps: Omit<SimulationWorkerStep, 'frame'>[]
+}
@@ -0,0 +1,247 @@
+import type { BufferGeometry } from 'three'
+import { BufferAttribute } from 'three'
+
+import type { CapTessellationSettings } from '../ElasticText'
+
+// Corners closer than this count as the same point when matching edges.
+const KEY_PRECISION = 1e4
+// Each pass halves the long edges, so this is far finer than any budget.
+const MAX_PASSES = 12
+// Faces whose normal is within ~2.5° of the extrusion axis are cap faces.
+const CAP_NORMAL_Z = 0.999
+
+type CapMesh = {
+  geometry: BufferGeometry
+  // Per attribute, the flat non-indexed values.
+  attributes: Map<string, { itemSize: number; array: ArrayLike<number> }>
+  positions: ArrayLike<number>
+  triangleCount: number
+}
+
+// A corner of an output triangle, halfway between two input corners (the
+// same corner twice for an original one).
+type Corner = [number, number]
+
+function pointKey(positions: ArrayLike<number>, corner: number): string {
+  return `${Math.round(positions[corner * 3] * KEY_PRECISION)},${Math.round(
+    positions[corner * 3 + 1] * KEY_PRECISION,
+  )},${Math.round(positions[corner * 3 + 2] * KEY_PRECISION)}`
+}
+
+function edgeKey(positions: ArrayLike<number>, a: number, b: number): string {
+  const first = pointKey(positions, a)
+  const second = pointKey(positions, b)
+  return first < second ? `${first}|${second}` : `${second}|${first}`
+}
+
+function cornerDistance(
+  positions: ArrayLike<number>,
+  [fromA, fromB]: Corner,
+  [toA, toB]: Corner,
+): number {
+  let sum = 0
+  for (let axis = 0; axis < 3; axis += 1) {
+    const from = positions[fromA * 3 + axis] + positions[fromB * 3 + axis]
+    const to = positions[toA * 3 + axis] + positions[toB * 3 + axis]
+    sum += (to - from) * (to - from)
+  }
+  return Math.sqrt(sum) * 0.5
+}
+
+function isCapTriangle(
+  positions: ArrayLike<number>,
+  triangle: number,
+): boolean {
+  const a = triangle * 9
+  const abX = positions[a + 3] - positions[a]
+  const abY = positions[a + 4] - positions[a + 1]
+  const abZ = positions[a + 5] - positions[a + 2]
+  const acX = positions[a + 6] - positions[a]
+  const acY = positions[a + 7] - positions[a + 1]
+  const acZ = positions[a + 8] - positions[a + 2]
+  const x = abY * acZ - abZ * acY
+  const y = abZ * acX - abX * acZ
+  const z = abX * acY - abY * acX
+  const length = Math.hypot(x, y, z)
+  return length > 1e-12 && Math.abs(z) / length >= CAP_NORMAL_Z
+}
+
+function readCapMesh(geometry: BufferGeometry): CapMesh {
+  const source = geometry.index ? geometry.toNonIndexed() : geometry
+  const attributes: CapMesh['attributes'] = new Map()
+  for (const [name, attribute] of Object.entries(source.attributes)) {
+    attributes.set(name, {
+      itemSize: attribute.itemSize,
+      array: attribute.array,
+    })
+  }
+  if (source !== geometry) {
+    source.dispose()
+  }
+
+  const positions = attributes.get('position')?.array ?? []
+  return {
+    geometry,
+    attributes,
+    positions,
+    triangleCount: Math.floor(positions.length / 9),
+  }
+}
+
+// Splits the marked edges of triangle `a b c` (winding kept) into 1-4
+// triangles.
+function splitTriangle(
+  corners: [number, number, number],
+  split: [boolean, boolean, boolean],
+  positions: ArrayLike<number>,
+): Corner[] {
+  const splitCount = Number(split[0]) + Number(split[1]) + Number(split[2])
+  if (splitCount === 0) {
+    return corners.map((corner): Corner => [corner, corner])
+  }
+
+  // Rotate so the first split edge (or, with two, the one left whole) lands
+  // in a fixed slot.
+  let rotation = 0
+  if (splitCount === 1) {
+    rotation = split.indexOf(true)
+  } else if (splitCount === 2) {
+    rotation = (split.indexOf(false) + 1) % 3
+  }
+  const a = corners[rotation]
+  const b = corners[(rotation + 1) % 3]
+  const c = corners[(rotation + 2) % 3]
+  const ab: Corner = [a, b]
+  const bc: Corner = [b, c]
+  const ca: Corner = [c, a]
+
+  if (splitCount === 1) {
+    return [[a, a], ab, [c, c], ab, [b, b], [c, c]]
+  }
+
+  if (splitCount === 2) {
+    // `ab` and `bc` split; the quad left over takes its shorter diagonal.
+    const quad: Corner[] =
+      cornerDistance(positions, [a, a], bc) <=
+      cornerDistance(positions, ab, [c, c])
+        ? [[a, a], ab, bc, [a, a], bc, [c, c]]
+        : [[a, a], ab, [c, c], ab, bc, [c, c]]
+    return [ab, [b, b], bc, ...quad]
+  }
+
+  return [[a, a], ab, ca, ab, [b, b], bc, ca, bc, [c, c], ab, bc, ca]
+}
+
+function writeCorners(mesh: CapMesh, corners: Corner[]): void {
+  const { geometry } = mesh
+  // The refined triangles are flat again, and the material groups no longer
+  // line up with them.
+  geometry.setIndex(null)
+  geometry.clearGroups()
+  for (const [name, { itemSize, array }] of mesh.attributes) {
+    const values = new Float32Array(corners.length * itemSize)
+    corners.forEach(([from, to], corner) => {
+      for (let item = 0; item < itemSize; item += 1) {
+        values[corner * itemSize + item] =
+          (array[from * itemSize + item] + array[to * itemSize + item]) * 0.5
+      }
+    })
+    if (name === 'normal') {
+      // Blended bevel normals come out short.
+      for (let offset = 0; offset < values.length; offset += 3) {
+        const length =
+          Math.hypot(values[offset], values[offset + 1], values[offset + 2]) ||
+          1
+        values[offset] /= length
+        values[offset + 1] /= length
+        values[offset + 2] /= length
+      }
+    }
+    mesh.attributes.set(name, { itemSize, array: values })
+    geometry.setAttribute(name, new BufferAttribute(values, itemSize))
+  }
+
+  mesh.positions = mesh.attributes.get('position')?.array ?? []
+  mesh.triangleCount = corners.length / 3
+}
+
+// Long edges of the cap triangles, keyed by position so the faces on either
+// side (including the side wall along the outline) agree on them.
+function findLongCapEdges(mesh: CapMesh, targetLength: number): Set<string> {
+  const { positions } = mesh
+  const edges = new Set<string>()
+  for (let triangle = 0; triangle < mesh.triangleCount; triangle += 1) {
+    if (!isCapTriangle(positions, triangle)) {
+      continue
+    }
+    for (let side = 0; side < 3; side += 1) {
+      const corner = triangle * 3 + side
+      const next = triangle * 3 + ((side + 1) % 3)
+      const length = cornerDistance(positions, [corner, corner], [next, next])
+      if (length > targetLength) {
+        edges.add(edgeKey(positions, corner, next))
+      }
+    }
+  }
+  return edges
+}
+
+// Refines the flat front and back caps of extruded glyphs until no cap edge is
+// longer than `edgeLength`, halving the long edges pass by pass. Every face
+// on a long cap edge splits it, the side walls along the outline included, so
+// the mesh stays closed. Stops before the pass that would take the meshes
+// past `vertexBudget`.
+export function tessellateCaps(
+  geometries: BufferGeometry[],
+  settings: CapTessellationSettings,
+): void {
+  const targetLength = Math.max(settings.edgeLength, 1e-3)
+  const meshes = geometries.map(readCapMesh)
+
+  for (let pass = 0; pass < MAX_PASSES; pass += 1) {
+    const refined = meshes.map((mesh) => {
+      const { positions } = mesh
+      const longEdges = findLongCapEdges(mesh, targetLength)
+      const corners: Corner[] = []
+      let splitAny = false
+      for (let triangle = 0; triangle < mesh.triangleCount; triangle += 1) {
+        const first = triangle * 3
+        const triangleCorners: [number, number, number] = [
+          first,
+          first + 1,
+          first + 2,
+        ]
+        const split = triangleCorners.map((corner, side) => {
+          const next = triangleCorners[(side + 1) % 3]
+          return (
+            longEdges.size > 0 &&
+            cornerDistance(positions, [corner, corner], [next, next]) >
+              targetLength &&
+            longEdges.has(edgeKey(positions, corner, next))
+          )
+        }) as [boolean, boolean, boolean]
+
+        splitAny ||= split.includes(true)
+        corners.push(...splitTriangle(triangleCorners, split, positions))
+      }
+      return { corners, splitAny }
+    })
+
+    const nextVertexCount = refined.reduce(
+      (total, { corners }) => total + corners.length,
+      0,
+    )
+    if (
+      !refined.some(({ splitAny }) => splitAny) ||
+      nextVertexCount > settings.vertexBudget
+    ) {
+      break
+    }
+
+    refined.forEach(({ corners, splitAny }, meshIndex) => {
+      if (splitAny) {
+        writeCorners(meshes[meshIndex], corners)
+      }
+    })
+  }
+}
@@ -0,0 +1,253 @@
+import type { BufferGeometry } from 'three'
+import { Box3, BufferAttribute, Vector3 } from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import { TextGeometry, type Font } from 'three-stdlib'
+
+import type {
+  CapTessellationSettings,
+  TextParagraphSettings,
+  TextPathSettings,
+} from '../ElasticText'
+import { tessellateCaps } from './capTessellation'
+import { createTextPathPlacer } from './textPath'
+
+export type GlyphPlacement = {
+  char: string
+  index: number
+  line: number
+  x: number
+  y: number
+  // Horizontal advance of the glyph itself, without tracking.
+  advance: number
+}
+
+export type GlyphGeometryOptions = {
+  size: number
+  depth: number
+  bevelEnabled: boolean
+  bevelSize: number
+  bevelThickness: number
+  curveSegments: number
+  tessellation: CapTessellationSettings
+  paragraph: TextParagraphSettings
+  path: TextPathSettings
+}
+
+export type GlyphGeometry = {
+  char: string
+  index: number
+  geometry: BufferGeometry
+}
+
+type LayoutWord = {
+  chars: string[]
+  width: number
+}
+
+type LayoutLine = {
+  words: LayoutWord[]
+  width: number
+  // Last line of a paragraph (or the only one) is never justified.
+  paragraphEnd: boolean
+}
+
+// Mirrors the pen advance and line height of `Font.generateShapes`, then
+// breaks words onto lines and aligns them within the widest line.
+export function layoutGlyphs(
+  font: Font,
+  text: string,
+  size: number,
+  paragraph: TextParagraphSettings,
+): GlyphPlacement[] {
+  const data = font.data
+  const scale = size / data.resolution
+  const lineHeight =
+    (data.boundingBox.yMax - data.boundingBox.yMin + data.underlineThickness) *
+    scale *
+    paragraph.leading
+  const tracking = paragraph.tracking * size
+
+  const advanceOf = (char: string) => {
+    const glyph = data.glyphs[char] ?? data.glyphs['?']
+    return glyph ? glyph.ha * scale + tracking : 0
+  }
+  const spaceAdvance = advanceOf(' ')
+
+  const lines: LayoutLine[] = []
+  for (const paragraphText of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const words = paragraphText
+      .split(/\s+/)
+      .filter((word) => word.length > 0)
+      .map((word): LayoutWord => {
+        const chars = Array.from(word)
+        const width = chars.reduce((sum, char) => sum + advanceOf(char), 0)
+        return { chars, width: width - tracking }
+      })
+
+    let line: LayoutLine = { words: [], width: 0, paragraphEnd: false }
+    for (const word of words) {
+      const nextWidth =
+        line.words.length > 0
+          ? line.width + spaceAdvance + word.width
+          : word.width
+      if (
+        paragraph.wrapWidth > 0 &&
+        line.words.length > 0 &&
+        nextWidth > paragraph.wrapWidth
+      ) {
+        lines.push(line)
+        line = { words: [word], width: word.width, paragraphEnd: false }
+        continue
+      }
+
+      line.words.push(word)
+      line.width = nextWidth
+    }
+
+    line.paragraphEnd = true
+    lines.push(line)
+  }
+
+  const blockWidth = lines.reduce(
+    (widest, line) => Math.max(widest, line.width),
+    0,
+  )
+  const placements: GlyphPlacement[] = []
+
+  lines.forEach((line, lineIndex) => {
+    const slack = blockWidth - line.width
+    let penX = 0
+    let gap = spaceAdvance
+
+    if (paragraph.align === 'Center') {
+      penX = slack * 0.5
+    } else if (paragraph.align === 'Right') {
+      penX = slack
+    } else if (
+      paragraph.align === 'Justify' &&
+      !line.paragraphEnd &&
+      line.words.length > 1
+    ) {
+      gap += slack / (line.words.length - 1)
+    }
+
+    const y = -lineIndex * lineHeight
+    for (const word of line.words) {
+      for (const char of word.chars) {
+        const glyph = data.glyphs[char] ?? data.glyphs['?']
+        if (glyph?.o) {
+          placements.push({
+            char,
+            index: placements.length,
+            line: lineIndex,
+            x: penX,
+            y,
+            advance: glyph.ha * scale,
+          })
+        }
+        penX += advanceOf(char)
+      }
+      penX += gap - tracking
+    }
+  })
+
+  return placements
+}
+
+export function createGlyphGeometries(
+  font: Font,
+  text: string,
+  options: GlyphGeometryOptions,
+): GlyphGeometry[] {
+  // Same extrusion parameters `Text3D` forwards, including its bevelSegments
+  // default that the stdlib typings do not declare.
+  const parameters = {
+    font,
+    size: options.size,
+    height: options.depth,
+    bevelEnabled: options.bevelEnabled,
+    bevelSize: options.bevelSize,
+    bevelThickness: options.bevelThickness,
+    bevelSegments: 4,
+    curveSegments: options.curveSegments,
+  }
+  const placements = layoutGlyphs(font, text, options.size, options.paragraph)
+  const blockWidth = placements.reduce(
+    (widest, placement) => Math.max(widest, placement.x + placement.advance),
+    0,
+  )
+  const placeOnPath = createTextPathPlacer(
+    options.path,
+    blockWidth,
+    blockWidth / Math.max(placements.length, 1),
+  )
+
+  const bounds = new Box3()
+  const glyphs = placements.map((placement) => {
+    const geometry = new TextGeometry(placement.char, parameters)
+    const transform = placeOnPath(
+      placement.x + placement.advance * 0.5,
+      placement.y,
+    )
+    // Pivot each glyph about the middle of its baseline so it follows the
+    // path tangent.
+    geometry.translate(-placement.advance * 0.5, 0, 0)
+    if (transform.angle !== 0) {
+      geometry.rotateZ(transform.angle)
+    }
+    geometry.translate(transform.x, transform.y, 0)
+    geometry.computeBoundingBox()
+    if (geometry.boundingBox) {
+      bounds.union(geometry.boundingBox)
+    }
+
+    return { char: placement.char, index: placement.index, geometry }
+  })
+
+  // Glyphs share one budget, so dense text stays as evenly refined as sparse.
+  if (options.tessellation.enabled) {
+    tessellateCaps(
+      glyphs.map((glyph) => glyph.geometry),
+      options.tessellation,
+    )
+  }
+
+  if (!bounds.isEmpty()) {
+    const center = bounds.getCenter(new Vector3())
+    for (const glyph of glyphs) {
+      glyph.geometry.translate(-center.x, -center.y, -center.z)
+    }
+  }
+
+  return glyphs
+}
+
+// The whole block as one centred mesh, for the `Word` layout, with an `aGlyph`
+// attribute holding each vertex's glyph index.
+export function createTextGeometry(
+  font: Font,
+  text: string,
+  options: GlyphGeometryOptions,
+): BufferGeometry | null {
+  const glyphs = createGlyphGeometries(font, text, options)
+  if (glyphs.length === 0) {
+    return null
+  }
+
+  // Tag every vertex with its glyph so the merged mesh can still break apart
+  // letter by letter.
+  for (const glyph of glyphs) {
+    const vertexCount = glyph.geometry.getAttribute('position').count
+    glyph.geometry.setAttribute(
+      'aGlyph',
+      new BufferAttribute(new Float32Array(vertexCount).fill(glyph.index), 1),
+    )
+  }
+
+  const geometry = mergeGeometries(glyphs.map((glyph) => glyph.geometry))
+  for (const glyph of glyphs) {
+    glyph.geometry.dispose()
+  }
+
+  return geometry
+}
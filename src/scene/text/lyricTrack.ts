@@ -0,0 +1,162 @@
+// A timed text change. `time` is in seconds or beats, depending on the clock
+// that plays the track.
+export type LyricCue = {
+  time: number
+  text: string
+}
+
+const TIME_TAG = /^\[([^\]]*)\]/
+const SRT_TIMING = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/
+// Multi-line cues are written on one line with ` / ` between the lines.
+const LINE_SEPARATOR = ' / '
+
+// Accepts plain seconds or beats (`12.5`), `mm:ss.xx` and `hh:mm:ss,mmm`.
+function parseTimestamp(value: string): number | null {
+  const parts = value.trim().replace(',', '.').split(':')
+  if (parts.length > 3 || parts.some((part) => part === '')) {
+    return null
+  }
+
+  let seconds = 0
+  for (const part of parts) {
+    const number = Number(part)
+    if (!Number.isFinite(number) || number < 0) {
+      return null
+    }
+    seconds = seconds * 60 + number
+  }
+
+  return seconds
+}
+
+function formatTimestamp(time: number): string {
+  return String(Math.round(time * 1000) / 1000)
+}
+
+function parseSrt(source: string): LyricCue[] {
+  const cues: LyricCue[] = []
+  for (const block of source.split(/\n\s*\n/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => SRT_TIMING.test(line))
+    if (timingIndex < 0) {
+      continue
+    }
+
+    const start = lines[timingIndex].match(SRT_TIMING)?.[1] ?? ''
+    const time = parseTimestamp(start)
+    const text = lines
+      .slice(timingIndex + 1)
+      .map((line) => line.replace(/<[^>]*>/g, '').trim())
+      .filter((line) => line.length > 0)
+      .join('\n')
+    if (time !== null && text.length > 0) {
+      cues.push({ time, text })
+    }
+  }
+
+  return cues
+}
+
+// LRC-style lines: one or more `[time]` tags before the text. Metadata tags
+// (`[ar:...]`) are skipped, word-level `<mm:ss.xx>` tags are stripped, and
+// untagged lines follow the previous cue by `spacing`.
+function parseTaggedLines(source: string, spacing: number): LyricCue[] {
+  const cues: LyricCue[] = []
+  let lastTime = -spacing
+
+  for (const rawLine of source.split('\n')) {
+    let line = rawLine.trim()
+    const times: number[] = []
+    let isMetadata = false
+
+    let tag = line.match(TIME_TAG)
+    while (tag) {
+      const time = parseTimestamp(tag[1])
+      if (time === null) {
+        isMetadata = true
+        break
+      }
+
+      times.push(time)
+      line = line.slice(tag[0].length).trim()
+      tag = line.match(TIME_TAG)
+    }
+
+    const text = line
+      .replace(/<[^>]*>/g, '')
+      .split(LINE_SEPARATOR)
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0)
+      .join('\n')
+    if (isMetadata || text.length === 0) {
+      continue
+    }
+
+    if (times.length === 0) {
+      times.push(lastTime + spacing)
+    }
+    for (const time of times) {
+      cues.push({ time, text })
+      lastTime = Math.max(lastTime, time)
+    }
+  }
+
+  return cues
+}
+
+// Reads SRT (detected by its `-->` timings), LRC or plain lines, sorted by
+// time. SRT end times are ignored: a cue holds until the next one.
+export function parseLyricTrack(source: string, spacing = 1): LyricCue[] {
+  const normalized = source.replace(/\r\n?/g, '\n')
+  const isSrt = normalized.split('\n').some((line) => SRT_TIMING.test(line))
+  const cues = isSrt
+    ? parseSrt(normalized)
+    : parseTaggedLines(normalized, spacing)
+
+  return cues.sort((a, b) => a.time - b.time)
+}
+
+// Editable LRC-style text that `parseLyricTrack` reads back.
+export function formatLyricTrack(cues: readonly LyricCue[]): string {
+  return cues
+    .map((cue) => {
+      const text = cue.text.split('\n').join(LINE_SEPARATOR)
+      return `[${formatTimestamp(cue.time)}] ${text}`
+    })
+    .join('\n')
+}
+
+// The last cue holds for as long as the gap before it (or one unit), so a
+// looping track keeps its rhythm.
+export function getLyricTrackLength(cues: readonly LyricCue[]): number {
+  const last = cues[cues.length - 1]
+  if (!last) {
+    return 0
+  }
+
+  const previous = cues[cues.length - 2]
+  const hold = previous ? last.time - previous.time : 0
+  return last.time + (hold > 0 ? hold : 1)
+}
+
+// Index of the cue showing at `position`, or -1 before the first cue.
+export function findLyricCueIndex(
+  cues: readonly LyricCue[],
+  position: number,
+): number {
+  let low = 0
+  let high = cues.length - 1
+  let found = -1
+
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (cues[middle].time <= position) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return found
+}
@@ -0,0 +1,226 @@
+import { Vector2 } from 'three'
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js'
+
+import type { TextPathSettings } from '../ElasticText'
+
+export type GlyphTransform = {
+  x: number
+  y: number
+  angle: number
+}
+
+// Maps a glyph's centre along the laid-out baseline (and the baseline of its
+// line) to a position and rotation on the path.
+export type TextPathPlacer = (
+  centerX: number,
+  baselineY: number,
+) => GlyphTransform
+
+type Polyline = {
+  points: Float32Array
+  lengths: Float32Array
+  length: number
+}
+
+const SVG_DIVISIONS = 256
+
+function createPolyline(points: readonly Vector2[]): Polyline | null {
+  if (points.length < 2) {
+    return null
+  }
+
+  const flat = new Float32Array(points.length * 2)
+  const lengths = new Float32Array(points.length)
+  points.forEach((point, index) => {
+    flat[index * 2] = point.x
+    flat[index * 2 + 1] = point.y
+    if (index > 0) {
+      lengths[index] =
+        lengths[index - 1] + point.distanceTo(points[index - 1])
+    }
+  })
+
+  const length = lengths[points.length - 1]
+  return length > 0 ? { points: flat, lengths, length } : null
+}
+
+// Past either end the path continues along its end tangent.
+function samplePolyline(
+  polyline: Polyline,
+  distance: number,
+  baselineY: number,
+): GlyphTransform {
+  const { points, lengths } = polyline
+  const last = lengths.length - 1
+
+  let low = 0
+  let high = last
+  while (high - low > 1) {
+    const middle = (low + high) >> 1
+    if (lengths[middle] <= distance) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+
+  let segment = low
+  while (segment < last - 1 && lengths[segment + 1] === lengths[segment]) {
+    segment += 1
+  }
+
+  const span = Math.max(lengths[segment + 1] - lengths[segment], 1e-9)
+  const t = (distance - lengths[segment]) / span
+  const ax = points[segment * 2]
+  const ay = points[segment * 2 + 1]
+  const dx = points[segment * 2 + 2] - ax
+  const dy = points[segment * 2 + 3] - ay
+  const tangentX = dx / span
+  const tangentY = dy / span
+
+  return {
+    x: ax + dx * t - tangentY * baselineY,
+    y: ay + dy * t + tangentX * baselineY,
+    angle: Math.atan2(tangentY, tangentX),
+  }
+}
+
+function createSinePolyline(
+  amplitude: number,
+  wavelength: number,
+  blockWidth: number,
+): Polyline | null {
+  const halfRange = blockWidth * 0.5 + wavelength
+  const sampleCount = Math.min(
+    Math.max(Math.ceil(((halfRange * 2) / wavelength) * 48), 64),
+    4096,
+  )
+  const points: Vector2[] = []
+  for (let index = 0; index <= sampleCount; index += 1) {
+    const x = -halfRange + (index / sampleCount) * halfRange * 2
+    const y = amplitude * Math.sin((x / wavelength) * Math.PI * 2)
+    points.push(new Vector2(x, y))
+  }
+
+  return createPolyline(points)
+}
+
+function createSvgPolyline(pathData: string, scale: number): Polyline | null {
+  if (typeof DOMParser === 'undefined' || pathData.trim().length === 0) {
+    return null
+  }
+
+  const escapedPath = pathData.replace(/"/g, '')
+  const markup = `<svg xmlns="http://www.w3.org/2000/svg"><path d="${escapedPath}"/></svg>`
+  let subPaths
+  try {
+    subPaths = new SVGLoader()
+      .parse(markup)
+      .paths.flatMap((shapePath) => shapePath.subPaths)
+  } catch {
+    return null
+  }
+
+  const subPath = subPaths.find((path) => path.curves.length > 0)
+  if (!subPath) {
+    return null
+  }
+
+  // SVG y points down; centre the path on its bounds so it sits like text.
+  const points = subPath.getSpacedPoints(SVG_DIVISIONS)
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  for (const point of points) {
+    minX = Math.min(minX, point.x)
+    maxX = Math.max(maxX, point.x)
+    minY = Math.min(minY, point.y)
+    maxY = Math.max(maxY, point.y)
+  }
+  const centerX = (minX + maxX) * 0.5
+  const centerY = (minY + maxY) * 0.5
+
+  return createPolyline(
+    points.map((point) =>
+      point.set((point.x - centerX) * scale, -(point.y - centerY) * scale),
+    ),
+  )
+}
+
+// Whether `pathData` parses to a curve the text can follow; otherwise the SVG
+// shape lays the text out straight.
+export function isSvgTextPathUsable(pathData: string): boolean {
+  return createSvgPolyline(pathData, 1) !== null
+}
+
+export function createTextPathPlacer(
+  settings: TextPathSettings,
+  blockWidth: number,
+  glyphSpacing: number,
+): TextPathPlacer {
+  const straight: TextPathPlacer = (centerX, baselineY) => ({
+    x: centerX,
+    y: baselineY,
+    angle: 0,
+  })
+  const fromCenter = (centerX: number) => centerX - blockWidth * 0.5
+
+  switch (settings.shape) {
+    case 'Arc':
+    case 'Circle': {
+      const radius = Math.max(settings.radius, 0.01)
+      // Arc keeps the natural spacing; Circle spreads the text around the
+      // full circumference, centred at the top in both cases.
+      const angleScale =
+        settings.shape === 'Circle'
+          ? (Math.PI * 2) / Math.max(blockWidth + glyphSpacing, 1e-6)
+          : 1 / radius
+      const angleOffset = settings.offset * Math.PI * 2
+
+      return (centerX, baselineY) => {
+        const theta =
+          Math.PI * 0.5 - fromCenter(centerX) * angleScale - angleOffset
+        const distance = radius + baselineY
+        return {
+          x: Math.cos(theta) * distance,
+          y: Math.sin(theta) * distance,
+          angle: theta - Math.PI * 0.5,
+        }
+      }
+    }
+    case 'Sine': {
+      const polyline = createSinePolyline(
+        settings.amplitude,
+        Math.max(settings.wavelength, 0.01),
+        blockWidth,
+      )
+      if (!polyline) {
+        return straight
+      }
+
+      return (centerX, baselineY) =>
+        samplePolyline(
+          polyline,
+          polyline.length * (0.5 + settings.offset) + fromCenter(centerX),
+          baselineY,
+        )
+    }
+    case 'SVG': {
+      const polyline = createSvgPolyline(settings.svgPath, settings.svgScale)
+      if (!polyline) {
+        return straight
+      }
+
+      return (centerX, baselineY) =>
+        samplePolyline(
+          polyline,
+          polyline.length * settings.offset + centerX,
+          baselineY,
+        )
+    }
+    case 'None':
+    default:
+      return straight
+  }
+}